@@ -1,17 +1,68 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  McpError
+  McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  ServerNotification
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Import our tools
-import { repairText, getRepairLog, RepairTextParams, GetRepairLogParams } from './tools/repair.js';
+import {
+  repairText,
+  getRepairLog,
+  applyRepairs,
+  RepairTextParams,
+  GetRepairLogParams,
+  ApplyRepairsParams
+} from './tools/repair.js';
 import { formatTranscript, FormatTranscriptParams } from './tools/formatting.js';
-import { summaryText, SummaryTextParams } from './tools/summary.js';
+import { restorePunctuationText, RestorePunctuationParams } from './tools/punctuation.js';
+import { VERBATIM_LEVELS } from './utils/disfluency.js';
+import { LANGUAGE_OPTIONS } from './utils/languages.js';
+import { PUNCTUATION_MODES } from './utils/punctuation.js';
+import { PII_TYPES } from './utils/redaction.js';
+import { summaryText, SummaryTextParams, SUMMARY_STYLES, CITATION_MODES } from './tools/summary.js';
+import { listSessions, ListSessionsParams } from './tools/sessions.js';
+import { processTranscript, ProcessTranscriptParams, PIPELINE_STAGES } from './tools/pipeline.js';
+import { generateChapters, GenerateChaptersParams } from './tools/chapters.js';
+import { compareTranscripts, CompareTranscriptsParams } from './tools/compare.js';
+import {
+  redactText,
+  restoreRedactions,
+  RedactTextParams,
+  RestoreRedactionsParams
+} from './tools/redaction.js';
+import {
+  indexTranscripts,
+  searchTranscripts,
+  IndexTranscriptsParams,
+  SearchTranscriptsParams
+} from './tools/library.js';
+import { batchProcess, BatchProcessParams, BATCH_OPERATIONS } from './tools/batch.js';
+import {
+  appendTranscript,
+  finalizeTranscript,
+  AppendTranscriptParams,
+  FinalizeTranscriptParams
+} from './tools/streams.js';
+import { CHAPTER_FORMATS } from './writers/index.js';
+import { SessionStore } from './utils/session-store.js';
+import { ProgressContext } from './utils/progress.js';
+import { getTransportConfig } from './utils/config.js';
+import { connectionLogDirs, startHttpServer } from './transports/http.js';
+import {
+  listSessionResources,
+  listSessionResourceTemplates,
+  readSessionResource
+} from './resources/sessions.js';
 
 /**
  * TranscriptionTools MCP Server
@@ -30,19 +81,67 @@ class TranscriptionToolsServer {
       {
         capabilities: {
           tools: {}, // We'll register our tools next
+          resources: {}, // Session records and outputs
         },
       }
     );
 
-    // Register our tools
+    // Register our tools and resources
     this.setupToolHandlers();
+    this.setupResourceHandlers();
     
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+  }
+
+  /**
+   * Serve a client over a transport
+   * @param transport - Transport of the client's connection
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Close the client's connection
+   */
+  async close() {
+    await this.server.close();
+  }
+
+  /**
+   * Build the progress context of a tool call
+   * Progress is only sent when the client asked for it with a progress token, and only when it
+   * has moved on by at least a whole step. It goes out with the call's own request, so HTTP
+   * clients receive it on the call's response stream
+   * @param signal - Aborted when the client cancels the call
+   * @param sendNotification - Sends a notification related to the call
+   * @param progressToken - Token from the request's metadata, if any
+   * @returns Progress context for the tool
+   */
+  private progressContext(
+    signal: AbortSignal,
+    sendNotification: (notification: ServerNotification) => Promise<void>,
+    progressToken?: ProgressToken
+  ): ProgressContext {
+    if (progressToken === undefined) {
+      return { signal };
+    }
+    
+    let last = -1;
+    return {
+      signal,
+      onProgress: (progress, total) => {
+        const step = Math.floor(progress);
+        if (step <= last) {
+          return;
+        }
+        last = step;
+        // Progress is advisory; a lost update must not fail the call
+        sendNotification({ method: 'notifications/progress', params: { progressToken, progress: step, total } })
+          .catch(() => undefined);
+      }
+    };
   }
 
   /**
@@ -66,14 +165,63 @@ class TranscriptionToolsServer {
                 type: 'boolean',
                 description: 'Whether input_text is a file path',
                 default: false
+              },
+              glossary_path: {
+                type: 'string',
+                description: 'Path to a JSON or YAML glossary of domain terms and regex rules, merged with the built-in rules'
+              },
+              known_terms: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Domain terms, product names and proper nouns to treat as valid words and correction candidates'
+              },
+              confidence_threshold: {
+                type: 'number',
+                description: 'Minimum confidence (0-100) for a correction to be applied; weaker candidates are only logged',
+                default: 90
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Return proposed corrections with IDs, offsets and a word-level diff for review instead of applying them',
+                default: false
+              },
+              language: {
+                type: 'string',
+                enum: LANGUAGE_OPTIONS,
+                description: 'Language of the text, choosing the built-in corrections; unknown-word checks are English only. auto detects it',
+                default: 'auto'
               }
             },
             required: ['input_text']
           }
         },
+        {
+          name: 'apply_repairs',
+          description: 'Applies reviewed corrections from a dry-run repair_text session and writes the repaired text',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              session_id: {
+                type: 'string',
+                description: 'Session ID returned by a dry-run repair_text call'
+              },
+              accepted_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Correction IDs to apply, including ones below the confidence threshold'
+              },
+              rejected_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Correction IDs to skip, including ones above the confidence threshold'
+              }
+            },
+            required: ['session_id']
+          }
+        },
         {
           name: 'get_repair_log',
-          description: 'Retrieves detailed analysis log from previous repair operation',
+          description: 'Retrieves the corrections and suggestions logged by a previous repair operation',
           inputSchema: {
             type: 'object',
             properties: {
@@ -85,9 +233,40 @@ class TranscriptionToolsServer {
             required: ['session_id']
           }
         },
+        {
+          name: 'list_sessions',
+          description: 'Lists previous tool sessions with their inputs, outputs and statistics',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool: {
+                type: 'string',
+                description: 'Only sessions of this tool, e.g. repair_text'
+              },
+              status: {
+                type: 'string',
+                enum: ['running', 'completed', 'failed'],
+                description: 'Only sessions with this status'
+              },
+              since: {
+                type: 'string',
+                description: 'Only sessions created on or after this ISO date or date-time'
+              },
+              until: {
+                type: 'string',
+                description: 'Only sessions created on or before this ISO date or date-time'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of sessions to return',
+                default: 50
+              }
+            }
+          }
+        },
         {
           name: 'format_transcript',
-          description: 'Transforms timestamped transcripts into naturally formatted text',
+          description: 'Transforms timestamped transcripts (bracketed timestamps, SRT or WebVTT) into naturally formatted text',
           inputSchema: {
             type: 'object',
             properties: {
@@ -97,7 +276,7 @@ class TranscriptionToolsServer {
               },
               is_file_path: {
                 type: 'boolean',
-                description: 'Whether input_text is a file path',
+                description: 'Whether input_text is a file path; the formatted text is then written to a file in the output directory and its path returned',
                 default: false
               },
               paragraph_gap: {
@@ -109,6 +288,159 @@ class TranscriptionToolsServer {
                 type: 'number',
                 description: 'Seconds gap for line breaks',
                 default: 4
+              },
+              input_format: {
+                type: 'string',
+                enum: ['auto', 'bracket', 'srt', 'vtt'],
+                description: 'Input transcript format, auto-detected by default',
+                default: 'auto'
+              },
+              timestamp_pattern: {
+                type: 'string',
+                description: 'Regular expression matching the timestamp of each line, with a named "start" group and optional "end" and "text" groups; overrides input_format'
+              },
+              output_format: {
+                type: 'string',
+                enum: ['text', 'srt', 'vtt', 'json', 'markdown'],
+                description: 'Output format: prose text, SRT or WebVTT captions, JSON segment list, or Markdown with timestamped paragraph headings',
+                default: 'text'
+              },
+              max_cue_chars: {
+                type: 'number',
+                description: 'Maximum characters per caption cue (SRT/WebVTT output)',
+                default: 84
+              },
+              max_cue_duration: {
+                type: 'number',
+                description: 'Maximum seconds per caption cue (SRT/WebVTT output)',
+                default: 7
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels (e.g. "SPEAKER 1") to display names'
+              },
+              verbatim_level: {
+                type: 'string',
+                enum: VERBATIM_LEVELS,
+                description: 'full keeps every word as recognized; clean removes fillers, repeated words and false starts; edited also removes discourse markers such as "you know" and "I mean"',
+                default: 'full'
+              },
+              language: {
+                type: 'string',
+                enum: LANGUAGE_OPTIONS,
+                description: 'Language of the transcript, choosing the filler lexicon and restored punctuation; auto detects it',
+                default: 'auto'
+              },
+              fillers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Extra filler words or phrases to remove below full verbatim'
+              },
+              restore_punctuation: {
+                type: 'string',
+                enum: PUNCTUATION_MODES,
+                description: 'Restore sentence punctuation and capitals: auto does so only for text without punctuation, such as raw speech recognition output',
+                default: 'auto'
+              },
+              pause_threshold: {
+                type: 'number',
+                description: 'Seconds of silence between segments that end a restored sentence',
+                default: 0.7
+              },
+              glossary_path: {
+                type: 'string',
+                description: 'Path to a JSON or YAML glossary whose terms are capitalized as proper nouns when restoring punctuation'
+              }
+            },
+            required: ['input_text']
+          }
+        },
+        {
+          name: 'append_transcript',
+          description: 'Adds newly received lines to a live transcript and returns the paragraphs they complete; omit stream_id to open a new stream',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stream_id: {
+                type: 'string',
+                description: 'Stream returned by the first append_transcript call; omit to open a new stream'
+              },
+              lines: {
+                type: 'string',
+                description: 'Newly received timestamped lines'
+              },
+              paragraph_gap: {
+                type: 'number',
+                description: 'Seconds gap for paragraph breaks (when opening a stream)',
+                default: 8
+              },
+              line_gap: {
+                type: 'number',
+                description: 'Seconds gap for line breaks (when opening a stream)',
+                default: 4
+              },
+              timestamp_pattern: {
+                type: 'string',
+                description: 'Regular expression matching the timestamp of each line, with a named "start" group (when opening a stream)'
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels to display names (when opening a stream)'
+              }
+            },
+            required: ['lines']
+          }
+        },
+        {
+          name: 'finalize_transcript',
+          description: 'Flushes the open paragraph of a live transcript and closes the stream',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stream_id: {
+                type: 'string',
+                description: 'Stream to close'
+              }
+            },
+            required: ['stream_id']
+          }
+        },
+        {
+          name: 'restore_punctuation',
+          description: 'Restores sentence punctuation and capitalization in raw speech recognition output, using pauses between timestamps and lexical cues',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              input_text: {
+                type: 'string',
+                description: 'Transcript text or path to file'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether input_text is a file path',
+                default: false
+              },
+              input_format: {
+                type: 'string',
+                enum: ['auto', 'bracket', 'srt', 'vtt'],
+                description: 'Input transcript format, auto-detected by default',
+                default: 'auto'
+              },
+              pause_threshold: {
+                type: 'number',
+                description: 'Seconds of silence between segments that end a sentence',
+                default: 0.7
+              },
+              glossary_path: {
+                type: 'string',
+                description: 'Path to a JSON or YAML glossary whose terms are capitalized as proper nouns'
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels to display names'
               }
             },
             required: ['input_text']
@@ -137,17 +469,413 @@ class TranscriptionToolsServer {
               constraint_value: {
                 type: 'number',
                 description: 'Value for the specified constraint'
+              },
+              mode: {
+                type: 'string',
+                enum: ['overall', 'per_speaker'],
+                description: 'Summarize the whole text, or each speaker separately with their talk-time share',
+                default: 'overall'
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels to display names'
+              },
+              ranking: {
+                type: 'string',
+                enum: ['textrank', 'lexrank'],
+                description: 'Sentence centrality method: similarity-weighted TextRank or thresholded LexRank',
+                default: 'textrank'
+              },
+              style: {
+                type: 'string',
+                enum: SUMMARY_STYLES,
+                description: 'Layout: a paragraph, bullet points, an outline with one heading per topic, ranked key phrases, or action items with owners and deadlines',
+                default: 'paragraph'
+              },
+              citations: {
+                type: 'string',
+                enum: CITATION_MODES,
+                description: 'Link summary sentences to the transcript: none, a start time such as (00:12:40) after each sentence, or a JSON list of sentences with start, end and speaker',
+                default: 'none'
+              },
+              language: {
+                type: 'string',
+                enum: LANGUAGE_OPTIONS,
+                description: 'Language of the transcript, choosing sentence splitting, stopwords and the speaking rate for time constraints; auto detects it',
+                default: 'auto'
+              }
+            },
+            required: ['input_text']
+          }
+        },
+        {
+          name: 'generate_chapters',
+          description: 'Divides a timestamped transcript into topical chapters with start times and titles drawn from their key phrases',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              input_text: {
+                type: 'string',
+                description: 'Timestamped transcript text or path to file'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether input_text is a file path',
+                default: false
+              },
+              input_format: {
+                type: 'string',
+                enum: ['auto', 'bracket', 'srt', 'vtt'],
+                description: 'Input transcript format, auto-detected by default',
+                default: 'auto'
+              },
+              output_format: {
+                type: 'string',
+                enum: CHAPTER_FORMATS,
+                description: 'Output format: YouTube description chapter list, WebVTT chapters track, or JSON',
+                default: 'youtube'
+              },
+              min_chapter_length: {
+                type: 'number',
+                description: 'Shortest chapter in seconds; shorter topic sections are merged into a neighbour',
+                default: 60
+              },
+              max_chapter_length: {
+                type: 'number',
+                description: 'Longest chapter in seconds; longer sections are split at their weakest topic shift (no limit by default)'
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels to display names'
+              },
+              language: {
+                type: 'string',
+                enum: LANGUAGE_OPTIONS,
+                description: 'Language of the transcript, choosing the stopwords of topic segmentation and titles and restored punctuation; auto detects it',
+                default: 'auto'
+              }
+            },
+            required: ['input_text']
+          }
+        },
+        {
+          name: 'process_transcript',
+          description: 'Runs format, repair and summarize stages in order in one session, passing each stage\'s text to the next',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              input_text: {
+                type: 'string',
+                description: 'Transcript text or path to file'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether input_text is a file path',
+                default: false
+              },
+              stages: {
+                type: 'array',
+                description: 'Stages to run in order (default: format, repair, summarize)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    stage: {
+                      type: 'string',
+                      enum: PIPELINE_STAGES
+                    },
+                    params: {
+                      type: 'object',
+                      description: 'Parameters of the matching tool (format_transcript, repair_text or summary_text), without input_text and is_file_path'
+                    }
+                  },
+                  required: ['stage']
+                }
               }
             },
             required: ['input_text']
           }
+        },
+        {
+          name: 'compare_transcripts',
+          description: 'Scores a transcript against a reference with word and character error rates, or measures how much a repair session improved one',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              reference_text: {
+                type: 'string',
+                description: 'Reference transcript text or path to file'
+              },
+              hypothesis_text: {
+                type: 'string',
+                description: 'Transcript to score, as text or path to file (omit when session_id is given)'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether reference_text and hypothesis_text are file paths',
+                default: false
+              },
+              session_id: {
+                type: 'string',
+                description: 'Repair session whose text is scored before and after repair'
+              },
+              input_format: {
+                type: 'string',
+                description: 'Transcript format of both texts: auto, bracket, srt, vtt or a registered parser',
+                default: 'auto'
+              },
+              normalization: {
+                type: 'object',
+                description: 'Differences ignored when comparing',
+                properties: {
+                  ignore_case: { type: 'boolean', default: true },
+                  ignore_punctuation: { type: 'boolean', default: true },
+                  normalize_numbers: {
+                    type: 'boolean',
+                    description: 'Spell out digits so "25" matches "twenty five" (English)',
+                    default: true
+                  },
+                  ignore_fillers: {
+                    type: 'boolean',
+                    description: 'Drop hesitation sounds such as "um" and "uh"',
+                    default: false
+                  }
+                }
+              },
+              max_confusions: {
+                type: 'number',
+                description: 'Number of most frequent errors to list',
+                default: 10
+              },
+              language: {
+                type: 'string',
+                enum: LANGUAGE_OPTIONS,
+                description: 'Language of the transcripts, or auto to detect it from the reference',
+                default: 'auto'
+              }
+            },
+            required: ['reference_text']
+          }
+        },
+        {
+          name: 'redact_text',
+          description: 'Replaces emails, phone, card and account numbers, URLs, dates of birth and named people with consistent placeholders such as [PERSON_1], keeping timestamps and speaker labels',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              input_text: {
+                type: 'string',
+                description: 'Transcript text or path to file'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether input_text is a file path',
+                default: false
+              },
+              entity_types: {
+                type: 'array',
+                items: { type: 'string', enum: PII_TYPES },
+                description: 'Kinds of data to redact (default: all)'
+              },
+              names: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Names of people to redact, matched as whole words in any case'
+              }
+            },
+            required: ['input_text']
+          }
+        },
+        {
+          name: 'restore_redactions',
+          description: 'Restores the original values behind the placeholders of a redact_text session; requires the configured restore key',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              session_id: {
+                type: 'string',
+                description: 'Session ID returned by redact_text'
+              },
+              restore_key: {
+                type: 'string',
+                description: 'Key configured in TRANSCRIPTION_TOOLS_REDACTION_KEY'
+              },
+              text: {
+                type: 'string',
+                description: 'Text carrying the session\'s placeholders, such as a summary of the redacted transcript, or path to file (default: the redacted transcript)'
+              },
+              is_file_path: {
+                type: 'boolean',
+                description: 'Whether text is a file path',
+                default: false
+              }
+            },
+            required: ['session_id', 'restore_key']
+          }
+        },
+        {
+          name: 'index_transcripts',
+          description: 'Builds or refreshes a local search index over a directory of transcripts, re-reading only new and changed files',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              directory: {
+                type: 'string',
+                description: 'Directory of transcripts to index'
+              },
+              extensions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'File extensions to index (default: .txt, .srt, .vtt)'
+              },
+              recursive: {
+                type: 'boolean',
+                description: 'Whether to index subdirectories',
+                default: true
+              },
+              input_format: {
+                type: 'string',
+                description: 'Input format: auto, bracket, srt, vtt or a registered parser',
+                default: 'auto'
+              },
+              timestamp_pattern: {
+                type: 'string',
+                description: 'Regular expression for a custom timestamp layout, with a named "start" group and optional "end" and "text" groups'
+              },
+              speaker_map: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Rename speakers, mapping source labels to display names'
+              }
+            },
+            required: ['directory']
+          }
+        },
+        {
+          name: 'search_transcripts',
+          description: 'Searches indexed transcripts and returns matching segments with file, timestamp, speaker and surrounding context',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Words (all required), "quoted phrases", OR, NOT or -word, parentheses, word~ for close spellings and word* for prefixes'
+              },
+              directory: {
+                type: 'string',
+                description: 'Indexed directory to search (default: every indexed directory)'
+              },
+              fuzzy: {
+                type: 'boolean',
+                description: 'Let every word match close spellings',
+                default: false
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of hits',
+                default: 20
+              },
+              context: {
+                type: 'number',
+                description: 'Segments shown before and after each hit',
+                default: 1
+              },
+              refresh: {
+                type: 'boolean',
+                description: 'Index new and changed files before searching',
+                default: true
+              }
+            },
+            required: ['query']
+          }
+        },
+        {
+          name: 'batch_process',
+          description: 'Runs format, repair, summarize or a pipeline over every transcript in a directory or matching a glob, writing one output per file and a JSON or CSV manifest of the results',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              directory: {
+                type: 'string',
+                description: 'Directory of transcripts to process (give this or glob)'
+              },
+              glob: {
+                type: 'string',
+                description: 'Glob pattern of transcripts to process, with *, ?, **, [abc] and {a,b} (give this or directory)'
+              },
+              extensions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'File extensions taken from a directory (default: .txt, .srt, .vtt)'
+              },
+              recursive: {
+                type: 'boolean',
+                description: 'Whether to include subdirectories of a directory',
+                default: false
+              },
+              operation: {
+                type: 'string',
+                enum: BATCH_OPERATIONS,
+                description: 'Operation applied to each file'
+              },
+              params: {
+                type: 'object',
+                description: 'Parameters of the matching tool (format_transcript, repair_text or summary_text), without input_text and is_file_path'
+              },
+              stages: {
+                type: 'array',
+                description: 'Stages of the pipeline operation, as for process_transcript',
+                items: {
+                  type: 'object',
+                  properties: {
+                    stage: {
+                      type: 'string',
+                      enum: PIPELINE_STAGES
+                    },
+                    params: {
+                      type: 'object'
+                    }
+                  },
+                  required: ['stage']
+                }
+              },
+              output_dir: {
+                type: 'string',
+                description: 'Folder in the output directory for the results (default: batch_<session id>)'
+              },
+              output_name: {
+                type: 'string',
+                description: 'Output file name template using {name}, {operation}, {ext} and {input_ext}; a name taken by an existing file or another output gets a numbered suffix',
+                default: '{name}.{operation}{ext}'
+              },
+              concurrency: {
+                type: 'number',
+                description: 'Files processed at the same time, from 1 to 8',
+                default: 2
+              },
+              continue_on_error: {
+                type: 'boolean',
+                description: 'Keep processing after a file fails; otherwise the remaining files are skipped',
+                default: true
+              },
+              manifest_format: {
+                type: 'string',
+                enum: ['json', 'csv'],
+                description: 'Format of the manifest',
+                default: 'json'
+              }
+            },
+            required: ['operation']
+          }
         }
       ]
     }));
 
     // Handler for executing tools
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progress = this.progressContext(extra.signal, extra.sendNotification, request.params._meta?.progressToken);
 
       // Route the request to the appropriate tool
       try {
@@ -157,7 +885,7 @@ class TranscriptionToolsServer {
             if (!args || typeof args.input_text !== 'string') {
               throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
             }
-            const repairResult = await repairText(args as unknown as RepairTextParams);
+            const repairResult = await repairText(args as unknown as RepairTextParams, progress);
             return {
               content: [
                 {
@@ -167,6 +895,21 @@ class TranscriptionToolsServer {
               ]
             };
 
+          case 'apply_repairs':
+            // Validate required parameters
+            if (!args || typeof args.session_id !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: session_id');
+            }
+            const applyResult = await applyRepairs(args as unknown as ApplyRepairsParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(applyResult, null, 2)
+                }
+              ]
+            };
+
           case 'get_repair_log':
             // Validate required parameters
             if (!args || typeof args.session_id !== 'string') {
@@ -182,17 +925,78 @@ class TranscriptionToolsServer {
               ]
             };
 
+          case 'list_sessions':
+            const sessionsResult = await listSessions((args || {}) as unknown as ListSessionsParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(sessionsResult, null, 2)
+                }
+              ]
+            };
+
           case 'format_transcript':
             // Validate required parameters
             if (!args || typeof args.input_text !== 'string') {
               throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
             }
-            const formatResult = await formatTranscript(args as unknown as FormatTranscriptParams);
+            const formatResult = await formatTranscript(args as unknown as FormatTranscriptParams, progress);
+            // The formatted text (or, for an input file, where it was written) comes first; the
+            // disfluency counts follow when anything was cleaned
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: formatResult.formatted_text ?? JSON.stringify({ output_file: formatResult.output_file }, null, 2)
+                },
+                ...(formatResult.removed
+                  ? [{ type: 'text', text: JSON.stringify({ removed: formatResult.removed }, null, 2) }]
+                  : [])
+              ]
+            };
+
+          case 'append_transcript':
+            // Validate required parameters
+            if (!args || typeof args.lines !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: lines');
+            }
+            const appendResult = await appendTranscript(args as unknown as AppendTranscriptParams);
             return {
               content: [
                 {
                   type: 'text',
-                  text: formatResult.formatted_text
+                  text: JSON.stringify(appendResult, null, 2)
+                }
+              ]
+            };
+
+          case 'finalize_transcript':
+            // Validate required parameters
+            if (!args || typeof args.stream_id !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: stream_id');
+            }
+            const finalizeResult = await finalizeTranscript(args as unknown as FinalizeTranscriptParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(finalizeResult, null, 2)
+                }
+              ]
+            };
+
+          case 'restore_punctuation':
+            // Validate required parameters
+            if (!args || typeof args.input_text !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
+            }
+            const punctuationResult = await restorePunctuationText(args as unknown as RestorePunctuationParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: punctuationResult.restored_text
                 }
               ]
             };
@@ -202,12 +1006,145 @@ class TranscriptionToolsServer {
             if (!args || typeof args.input_text !== 'string') {
               throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
             }
-            const summaryResult = await summaryText(args as unknown as SummaryTextParams);
+            const { summary, ...summaryDetails } = await summaryText(args as unknown as SummaryTextParams);
+            // The summary comes first; speakers, keywords, action items and citations follow when requested
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: summary
+                },
+                ...(Object.keys(summaryDetails).length > 0
+                  ? [{ type: 'text', text: JSON.stringify(summaryDetails, null, 2) }]
+                  : [])
+              ]
+            };
+
+          case 'generate_chapters':
+            // Validate required parameters
+            if (!args || typeof args.input_text !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
+            }
+            const chaptersResult = await generateChapters(args as unknown as GenerateChaptersParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: chaptersResult.chapters_text
+                }
+              ]
+            };
+
+          case 'process_transcript':
+            // Validate required parameters
+            if (!args || typeof args.input_text !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
+            }
+            const pipelineResult = await processTranscript(args as unknown as ProcessTranscriptParams, progress);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(pipelineResult, null, 2)
+                }
+              ]
+            };
+
+          case 'compare_transcripts':
+            // Validate required parameters
+            if (!args || typeof args.reference_text !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: reference_text');
+            }
+            if (typeof args.hypothesis_text !== 'string' && typeof args.session_id !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: hypothesis_text or session_id');
+            }
+            const compareResult = await compareTranscripts(args as unknown as CompareTranscriptsParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(compareResult, null, 2)
+                }
+              ]
+            };
+
+          case 'redact_text':
+            // Validate required parameters
+            if (!args || typeof args.input_text !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: input_text');
+            }
+            const redactResult = await redactText(args as unknown as RedactTextParams);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(redactResult, null, 2)
+                }
+              ]
+            };
+
+          case 'restore_redactions':
+            // Validate required parameters
+            if (!args || typeof args.session_id !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: session_id');
+            }
+            if (typeof args.restore_key !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: restore_key');
+            }
+            const restoreResult = await restoreRedactions(args as unknown as RestoreRedactionsParams);
             return {
               content: [
                 {
                   type: 'text',
-                  text: summaryResult.summary
+                  text: JSON.stringify(restoreResult, null, 2)
+                }
+              ]
+            };
+
+          case 'index_transcripts':
+            // Validate required parameters
+            if (!args || typeof args.directory !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: directory');
+            }
+            const indexResult = await indexTranscripts(args as unknown as IndexTranscriptsParams, progress);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(indexResult, null, 2)
+                }
+              ]
+            };
+
+          case 'search_transcripts':
+            // Validate required parameters
+            if (!args || typeof args.query !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: query');
+            }
+            const searchResult = await searchTranscripts(args as unknown as SearchTranscriptsParams, progress);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(searchResult, null, 2)
+                }
+              ]
+            };
+
+          case 'batch_process':
+            // Validate required parameters
+            if (!args || typeof args.operation !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: operation');
+            }
+            if (typeof args.directory !== 'string' && typeof args.glob !== 'string') {
+              throw new McpError(ErrorCode.InvalidParams, 'Missing required parameter: directory or glob');
+            }
+            const batchResult = await batchProcess(args as unknown as BatchProcessParams, progress);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(batchResult, null, 2)
                 }
               ]
             };
@@ -219,6 +1156,10 @@ class TranscriptionToolsServer {
             );
         }
       } catch (error) {
+        // Invalid parameters, including paths outside the sandbox, are protocol errors
+        if (error instanceof McpError) {
+          throw error;
+        }
         return {
           content: [
             {
@@ -233,12 +1174,60 @@ class TranscriptionToolsServer {
   }
 
   /**
-   * Start the MCP server
+   * Set up the resource handlers exposing session records, logs and outputs
+   */
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await listSessionResources()
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: listSessionResourceTemplates()
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return {
+          contents: [await readSessionResource(request.params.uri)]
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    });
+  }
+
+  /**
+   * Start the MCP server on stdio, or on HTTP when selected by flag or environment variable
    */
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('TranscriptionTools MCP server running on stdio');
+    const config = getTransportConfig();
+    
+    // Apply the session retention policy before taking requests, to the sessions of earlier HTTP connections too
+    await new SessionStore().cleanup();
+    for (const logDir of await connectionLogDirs()) {
+      await new SessionStore(logDir).cleanup();
+    }
+    
+    if (config.transport === 'stdio') {
+      process.on('SIGINT', async () => {
+        await this.close();
+        process.exit(0);
+      });
+      await this.connect(new StdioServerTransport());
+      console.error('TranscriptionTools MCP server running on stdio');
+      return;
+    }
+    
+    // Each HTTP client is served by a server of its own
+    const httpServer = await startHttpServer(config, () => new TranscriptionToolsServer());
+    process.on('SIGINT', async () => {
+      await httpServer.close();
+      process.exit(0);
+    });
+    console.error(`TranscriptionTools MCP server running on ${httpServer.url}`);
   }
 }
 
@@ -0,0 +1,98 @@
+import { TranscriptParser, TranscriptSegment } from './types.js';
+import { extractSpeakerLabel } from './speakers.js';
+import { parseLeadingTimestamp } from './timecode.js';
+
+/**
+ * A timestamp read from the start of a line, with the text that follows it
+ */
+export interface TimestampedLine {
+  start: number; // seconds
+  end: number | null; // seconds, null when the line gives no end time
+  text: string;
+}
+
+/**
+ * Parse line-based transcripts where timed lines start new segments
+ * Untimed lines continue the previous segment, unless they open with a speaker label
+ * @param text - Raw transcript content
+ * @param readTimestamp - Reads the timestamp of a line, returning null for untimed lines
+ * @returns Parsed segments
+ */
+export function parseTimestampedLines(
+  text: string,
+  readTimestamp: (line: string) => TimestampedLine | null
+): TranscriptSegment[] {
+  const lines = text.trim().split(/\r?\n/);
+  const segments: TranscriptSegment[] = [];
+
+  // Parse each line to extract timestamp and text
+  for (const line of lines) {
+    const timestamp = readTimestamp(line);
+
+    if (timestamp) {
+      segments.push({
+        start: timestamp.start,
+        end: timestamp.end,
+        text: timestamp.text.trim(),
+        speaker: null
+      });
+    } else if (line.trim() !== '') {
+      // Handle lines without timestamps
+      if (segments.length > 0 && extractSpeakerLabel(line)) {
+        // A new speaker starts a new segment at the previous segment's time
+        segments.push({ start: segments[segments.length - 1].start, end: null, text: line.trim(), speaker: null });
+      } else if (segments.length > 0) {
+        // Append to the previous segment if it exists
+        segments[segments.length - 1].text += ' ' + line.trim();
+      } else {
+        // Create a new segment with time 0 if no previous segment
+        segments.push({ start: 0, end: null, text: line.trim(), speaker: null });
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Find the last timed line of a line-based transcript
+ * Untimed lines continue the segment before them, so only a timed line safely starts a new run
+ * @param text - Raw transcript content
+ * @param readTimestamp - Reads the timestamp of a line, returning null for untimed lines
+ * @returns Offset of the start of the last timed line, or -1 if no line is timed
+ */
+export function lastTimestampedLine(
+  text: string,
+  readTimestamp: (line: string) => TimestampedLine | null
+): number {
+  let end = text.length;
+  while (end > 0) {
+    const start = text.lastIndexOf('\n', end - 1) + 1;
+    if (readTimestamp(text.slice(start, end).replace(/\r$/, '')) !== null) {
+      return start;
+    }
+    end = start - 1;
+  }
+  return -1;
+}
+
+/**
+ * Parser for line-based transcripts that open each line with a timestamp
+ * Handles `[hh:mm:ss] text` as well as `[mm:ss]`, `(hh:mm:ss)`, `hh:mm:ss.mmm`, fractional
+ * seconds and `[start - end]` ranges
+ */
+export const bracketParser: TranscriptParser = {
+  name: 'bracket',
+
+  detect(text: string): boolean {
+    return text.split(/\r?\n/).some(line => parseLeadingTimestamp(line) !== null);
+  },
+
+  parse(text: string): TranscriptSegment[] {
+    return parseTimestampedLines(text, parseLeadingTimestamp);
+  },
+
+  lastSegmentStart(text: string): number {
+    return lastTimestampedLine(text, parseLeadingTimestamp);
+  }
+};
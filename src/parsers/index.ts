@@ -0,0 +1,126 @@
+import { ParsedTranscript, TranscriptParser } from './types.js';
+import { bracketParser } from './bracket.js';
+import { srtParser } from './srt.js';
+import { vttParser } from './vtt.js';
+import { createPatternParser } from './pattern.js';
+import { applySpeakerLabels, SpeakerState } from './speakers.js';
+
+export type { ParsedTranscript, TranscriptParser, TranscriptSegment } from './types.js';
+export { extractSpeakerLabel } from './speakers.js';
+export { createPatternParser } from './pattern.js';
+
+/**
+ * Registered parsers, in detection priority order
+ * The bracket parser is last as it also accepts untimed text
+ */
+const parsers: TranscriptParser[] = [vttParser, srtParser, bracketParser];
+
+/**
+ * Register an additional input format parser
+ * @param parser - Parser to register; it is tried before the built-in parsers
+ */
+export function registerParser(parser: TranscriptParser): void {
+  const existing = parsers.findIndex(p => p.name === parser.name);
+  if (existing !== -1) {
+    parsers.splice(existing, 1);
+  }
+  parsers.unshift(parser);
+}
+
+/**
+ * Get the names of all registered input formats
+ * @returns Array of parser names
+ */
+export function getParserNames(): string[] {
+  return parsers.map(p => p.name);
+}
+
+/**
+ * Pick the parser for a transcript, either by name or by auto-detection
+ * @param text - Raw transcript content
+ * @param format - Parser name, or 'auto' to detect
+ * @returns The selected parser
+ */
+export function selectParser(text: string, format = 'auto'): TranscriptParser {
+  if (format !== 'auto') {
+    const parser = parsers.find(p => p.name === format);
+    if (!parser) {
+      throw new Error(`Unknown input format: ${format}`);
+    }
+    return parser;
+  }
+
+  return parsers.find(p => p.detect(text)) || bracketParser;
+}
+
+/**
+ * Parse a transcript into the common segment model
+ * Inline speaker labels such as "ALICE:" are moved into each segment's speaker
+ * @param text - Raw transcript content
+ * @param format - Parser name, or 'auto' to detect
+ * @param speakerMap - Optional mapping from source speaker labels to display names
+ * @param timestampPattern - Caller-supplied timestamp pattern, used instead of the named parsers
+ * @param partial - Whether the text is only part of the transcript, as in a live stream
+ * @returns Object containing the detected format, the parsed segments and whether the text
+ * carried timestamps (plain text falls back to the bracket parser with every segment at zero)
+ */
+export function parseTranscript(
+  text: string,
+  format = 'auto',
+  speakerMap: Record<string, string> = {},
+  timestampPattern?: string,
+  partial = false
+): ParsedTranscript {
+  const parser = timestampPattern ? createPatternParser(timestampPattern) : selectParser(text, format);
+  const segments = applySpeakerLabels(parser.parse(text), speakerMap, partial);
+  return { format: parser.name, segments, timed: parser.detect(text) };
+}
+
+/**
+ * Parse a transcript read in chunks, a run of whole segments at a time
+ * The format and whether the transcript is timed are decided on the first chunk. The last
+ * segment of each chunk is held back and parsed with the next, as the chunk may cut it off;
+ * parsers that cannot find their segments' starts are given the whole transcript at the end
+ * @param chunks - Raw transcript content, in order
+ * @param format - Parser name, or 'auto' to detect
+ * @param speakerMap - Optional mapping from source speaker labels to display names
+ * @param timestampPattern - Caller-supplied timestamp pattern, used instead of the named parsers
+ * @returns Async iterator over the parsed runs, always yielding at least once
+ */
+export async function* parseTranscriptChunks(
+  chunks: AsyncIterable<string>,
+  format = 'auto',
+  speakerMap: Record<string, string> = {},
+  timestampPattern?: string
+): AsyncGenerator<ParsedTranscript> {
+  const speakers: SpeakerState = { current: null, names: new Set() };
+  let parser: TranscriptParser | null = null;
+  let timed = false;
+  let held = '';
+
+  for await (const chunk of chunks) {
+    const text = held + chunk;
+    if (!parser) {
+      parser = timestampPattern ? createPatternParser(timestampPattern) : selectParser(text, format);
+      timed = parser.detect(text);
+    }
+
+    // Nothing before the last segment's start means the chunk holds no whole segment yet
+    const cut = parser.lastSegmentStart ? parser.lastSegmentStart(text) : -1;
+    if (cut <= 0) {
+      held = text;
+      continue;
+    }
+
+    held = text.slice(cut);
+    const segments = applySpeakerLabels(parser.parse(text.slice(0, cut)), speakerMap, false, speakers);
+    yield { format: parser.name, segments, timed };
+  }
+
+  if (!parser) {
+    parser = timestampPattern ? createPatternParser(timestampPattern) : selectParser(held, format);
+    timed = parser.detect(held);
+  }
+  const segments = applySpeakerLabels(parser.parse(held), speakerMap, false, speakers);
+  yield { format: parser.name, segments, timed };
+}
@@ -0,0 +1,68 @@
+import { TranscriptParser } from './types.js';
+import { lastTimestampedLine, parseTimestampedLines, TimestampedLine } from './bracket.js';
+import { parseTimecode } from './timecode.js';
+
+/**
+ * Convert a captured time, either a clock-style timecode or plain seconds
+ * @param value - Captured text such as `00:01:02.5` or `62.5`
+ * @returns Time in seconds, or null if the value is not a time
+ */
+function parseTimeValue(value: string): number | null {
+  const trimmed = value.trim();
+  return /^\d+(?:[.,]\d+)?$/.test(trimmed) ? parseFloat(trimmed.replace(',', '.')) : parseTimecode(trimmed);
+}
+
+/**
+ * Build a parser for a caller-supplied timestamp pattern
+ * The pattern is matched against each line and must capture a named `start` group; optional
+ * `end` and `text` groups give the end time and the segment text (by default, the rest of the
+ * line after the match)
+ * @param source - Regular expression source, e.g. `^<(?<start>[\d:.]+)>`
+ * @returns Parser for lines in that layout
+ */
+export function createPatternParser(source: string): TranscriptParser {
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(source);
+  } catch (error) {
+    throw new Error(`Invalid timestamp pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!source.includes('(?<start>')) {
+    throw new Error('Timestamp pattern must capture a named "start" group');
+  }
+
+  const readTimestamp = (line: string): TimestampedLine | null => {
+    const match = line.match(pattern);
+    const groups = match?.groups;
+    if (!match || !groups || groups.start === undefined) {
+      return null;
+    }
+
+    const start = parseTimeValue(groups.start);
+    if (start === null) {
+      return null;
+    }
+
+    const end = groups.end !== undefined ? parseTimeValue(groups.end) : null;
+    const text = groups.text ?? line.slice((match.index ?? 0) + match[0].length);
+
+    return { start, end, text };
+  };
+
+  return {
+    name: 'pattern',
+
+    detect(text: string): boolean {
+      return text.split(/\r?\n/).some(line => readTimestamp(line) !== null);
+    },
+
+    parse(text: string) {
+      return parseTimestampedLines(text, readTimestamp);
+    },
+
+    lastSegmentStart(text: string) {
+      return lastTimestampedLine(text, readTimestamp);
+    }
+  };
+}
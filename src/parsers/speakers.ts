@@ -0,0 +1,111 @@
+import { TranscriptSegment } from './types.js';
+
+// Leading speaker labels: "ALICE:", "Dr. Smith:", "Speaker 2:", "José:" and names in scripts
+// without letter case such as "田中：", which may be followed by a full-width colon
+const SPEAKER_LABEL = /^((?:Speaker|SPEAKER|Spk|SPK)\s*\d+|\p{Lu}[\p{Lu}\p{N}.'-]*(?: \p{Lu}[\p{Lu}\p{N}.'-]*){0,3}|\p{Lu}[\p{Ll}.'-]+(?: \p{Lu}[\p{Ll}.'-]+){0,2}|\p{Lo}{1,6})\s*(?::\s+|：\s*)(.*)$/u;
+
+const NUMBERED_LABEL = /^(?:Speaker|SPEAKER|Spk|SPK)\s*\d+$/;
+
+// Words that head a note rather than name a speaker, as in "Note: bring snacks"
+const HEADING_WORDS = new Set([
+  'action', 'agenda', 'answer', 'attendees', 'caution', 'date', 'decision', 'disclaimer', 'edit',
+  'example', 'fyi', 'important', 'location', 'note', 'notes', 'notice', 'ps', 'question', 'quote',
+  're', 'reminder', 'source', 'subject', 'summary', 'tip', 'time', 'todo', 'topic', 'update', 'warning'
+]);
+
+/**
+ * Check whether a label is a numbered speaker label such as "Speaker 2", which stands on its
+ * own. Names, in capitals or not, only count once they label more than one line or are renamed
+ * by the speaker map, since "OK:" or "NASA:" may just open a sentence
+ * @param speaker - Label found at the start of a line
+ * @returns True if the label stands on its own
+ */
+function isNumberedLabel(speaker: string): boolean {
+  return NUMBERED_LABEL.test(speaker);
+}
+
+/**
+ * Split a leading speaker label off a line of transcript text
+ * @param text - Segment text
+ * @returns The speaker label and remaining text, or null if no label is present
+ */
+export function extractSpeakerLabel(text: string): { speaker: string; text: string } | null {
+  const match = text.trim().match(SPEAKER_LABEL);
+
+  if (!match || HEADING_WORDS.has(match[1].trim().toLowerCase())) {
+    return null;
+  }
+
+  return { speaker: match[1].trim(), text: match[2].trim() };
+}
+
+/**
+ * Speakers carried from one part of a transcript to the next when it is labelled a part at a time
+ */
+export interface SpeakerState {
+  current: string | null; // speaker of the last segment, after renaming
+  names: Set<string>; // names already taken as labels
+}
+
+/**
+ * Move inline speaker labels into the segment model and apply renames
+ * A name, such as "Alice:" or "ALICE:", is only taken as a label when it labels more than one
+ * segment or the speaker map renames it. Unlabelled segments after a labelled one are attributed to the same speaker
+ * @param segments - Parsed segments, modified in place
+ * @param speakerMap - Optional mapping from source labels to display names
+ * @param partial - Whether the segments are only part of the transcript, as in a live stream,
+ * so that a name seen once may still be a label
+ * @param state - Speakers of the parts before, updated in place, when the transcript is labelled
+ * a part at a time
+ * @returns The same segments
+ */
+export function applySpeakerLabels(
+  segments: TranscriptSegment[],
+  speakerMap: Record<string, string> = {},
+  partial = false,
+  state: SpeakerState = { current: null, names: new Set() }
+): TranscriptSegment[] {
+  // Case-insensitive lookup so "ALICE" and "Alice" map the same way
+  const lookup = new Map(Object.entries(speakerMap).map(([from, to]) => [from.toLowerCase(), to]));
+
+  const labels = segments.map(segment => (segment.speaker === null ? extractSpeakerLabel(segment.text) : null));
+  const uses = new Map<string, number>();
+  for (const label of labels) {
+    if (label) {
+      uses.set(label.speaker, (uses.get(label.speaker) ?? 0) + 1);
+    }
+  }
+
+  for (const [i, segment] of segments.entries()) {
+    if (segment.speaker === null) {
+      const label = labels[i];
+      if (
+        label
+        && (
+          partial
+          || isNumberedLabel(label.speaker)
+          || lookup.has(label.speaker.toLowerCase())
+          || state.names.has(label.speaker)
+          || (uses.get(label.speaker) ?? 0) > 1
+        )
+      ) {
+        segment.speaker = label.speaker;
+        segment.text = label.text;
+        if (!isNumberedLabel(label.speaker)) {
+          state.names.add(label.speaker);
+        }
+      } else {
+        // Already renamed when it was first seen
+        segment.speaker = state.current;
+        continue;
+      }
+    }
+
+    if (segment.speaker !== null) {
+      segment.speaker = lookup.get(segment.speaker.toLowerCase()) ?? segment.speaker;
+    }
+    state.current = segment.speaker;
+  }
+
+  return segments;
+}
@@ -0,0 +1,46 @@
+import { TranscriptParser, TranscriptSegment } from './types.js';
+import { lastBlockStart, parseCueTiming, splitBlocks } from './timecode.js';
+
+/**
+ * Parser for SubRip (.srt) subtitle files
+ */
+export const srtParser: TranscriptParser = {
+  name: 'srt',
+
+  detect(text: string): boolean {
+    return /^\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s+-->\s+\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}/m.test(text);
+  },
+
+  parse(text: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const block of splitBlocks(text)) {
+      // The numeric cue index is optional in practice, so locate the timing line
+      const timingIndex = block.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) {
+        continue;
+      }
+
+      const timing = parseCueTiming(block[timingIndex]);
+      if (!timing) {
+        continue;
+      }
+
+      const cueText = block
+        .slice(timingIndex + 1)
+        .map(line => line.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').trim())
+        .filter(line => line !== '')
+        .join(' ');
+
+      if (cueText === '') {
+        continue;
+      }
+
+      segments.push({ start: timing.start, end: timing.end, text: cueText, speaker: null });
+    }
+
+    return segments;
+  },
+
+  lastSegmentStart: lastBlockStart
+};
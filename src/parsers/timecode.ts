@@ -0,0 +1,138 @@
+/**
+ * Convert a clock-style timecode into seconds
+ * Accepts `hh:mm:ss`, `mm:ss` and an optional fraction separated by `.` or `,`. Seconds, and
+ * minutes after hours, must be below 60, so `00:99:99` or "at 5:75" is not a timecode
+ * @param value - Timecode string such as `00:01:02,345`
+ * @returns Time in seconds, or null if the value is not a timecode
+ */
+export function parseTimecode(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const fraction = match[4] ? parseFloat(`0.${match[4]}`) : 0;
+
+  if (seconds >= 60 || (match[1] && minutes >= 60)) {
+    return null;
+  }
+
+  return hours * 3600 + minutes * 60 + seconds + fraction;
+}
+
+// A clock time with optional hours and fraction: 1:02:03, 02:03, 00:01:02.345
+const CLOCK = '(?:\\d+:)?\\d{1,2}:\\d{1,2}(?:[.,]\\d+)?';
+
+// Unbracketed times need hours or a fraction, so "10:30 meeting" is not read as a timestamp
+const BARE_CLOCK = '(?:\\d+:\\d{1,2}:\\d{1,2}(?:[.,]\\d+)?|\\d{1,2}:\\d{1,2}[.,]\\d+)';
+
+// Separators between the start and end of a time range
+const RANGE_SEPARATOR = '\\s*(?:-->|-|–|—|to)\\s*';
+
+const ENCLOSED_TIMESTAMP = new RegExp(
+  `^\\s*(?:\\[(${CLOCK})(?:${RANGE_SEPARATOR}(${CLOCK}))?\\]|\\((${CLOCK})(?:${RANGE_SEPARATOR}(${CLOCK}))?\\))\\s*(.*)$`
+);
+const BARE_TIMESTAMP = new RegExp(
+  `^\\s*(${BARE_CLOCK})(?:${RANGE_SEPARATOR}(${BARE_CLOCK}))?(?:\\s*[|:–—-]\\s*|\\s+|$)(.*)$`
+);
+
+/**
+ * Read the timestamp at the start of a transcript line
+ * Accepts `[hh:mm:ss]`, `[mm:ss]`, `(hh:mm:ss)`, unbracketed `hh:mm:ss.mmm`, fractional seconds and
+ * ranges such as `[00:00:01 - 00:00:04]`
+ * @param line - Line of transcript text
+ * @returns Start, end (null without a range) and the text after the timestamp, or null if the
+ * line does not start with a timestamp
+ */
+export function parseLeadingTimestamp(line: string): { start: number; end: number | null; text: string } | null {
+  const enclosed = line.match(ENCLOSED_TIMESTAMP);
+  const match = enclosed
+    ? [enclosed[1] ?? enclosed[3], enclosed[2] ?? enclosed[4], enclosed[5]]
+    : line.match(BARE_TIMESTAMP)?.slice(1, 4);
+
+  if (!match) {
+    return null;
+  }
+
+  const start = parseTimecode(match[0]);
+  const end = match[1] ? parseTimecode(match[1]) : null;
+
+  if (start === null || (match[1] && end === null)) {
+    return null;
+  }
+
+  return { start, end, text: (match[2] ?? '').trim() };
+}
+
+/**
+ * Split cue-based content (SRT, WebVTT) into blocks separated by blank lines
+ * @param text - Raw file content
+ * @returns Array of blocks, each an array of non-empty lines
+ */
+export function splitBlocks(text: string): string[][] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').filter(line => line.trim() !== ''))
+    .filter(block => block.length > 0);
+}
+
+/**
+ * Find where the last block of cue-based content starts
+ * @param text - Raw file content
+ * @returns Offset just after the last blank line before the final block, or -1 if the text is
+ * a single block
+ */
+export function lastBlockStart(text: string): number {
+  let start = -1;
+  for (const match of text.trimEnd().matchAll(/\n[ \t]*\r?\n/g)) {
+    start = (match.index ?? 0) + match[0].length;
+  }
+  return start;
+}
+
+/**
+ * Parse a cue timing line of the form `start --> end [settings]`
+ * @param line - The timing line
+ * @returns Start and end in seconds, or null if the line is not a timing line
+ */
+export function parseCueTiming(line: string): { start: number; end: number } | null {
+  const match = line.match(/^\s*(\S+)\s+-->\s+(\S+)/);
+
+  if (!match) {
+    return null;
+  }
+
+  const start = parseTimecode(match[1]);
+  const end = parseTimecode(match[2]);
+
+  if (start === null || end === null) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Convert seconds into a clock-style timecode
+ * @param seconds - Time in seconds
+ * @param fractionSeparator - Separator before milliseconds, or null to omit them
+ * @returns Timecode string such as `00:01:02,345`
+ */
+export function formatTimecode(seconds: number, fractionSeparator: string | null = null): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const clock = `${pad(hours)}:${pad(minutes)}:${pad(secs)}`;
+
+  return fractionSeparator === null ? clock : `${clock}${fractionSeparator}${pad(ms, 3)}`;
+}
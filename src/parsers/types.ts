@@ -0,0 +1,44 @@
+/**
+ * A single timed unit of speech, shared by every input format
+ */
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number | null; // seconds, null when the source carries no end time
+  text: string;
+  speaker: string | null;
+}
+
+/**
+ * Contract for a transcript input format parser
+ */
+export interface TranscriptParser {
+  name: string;
+  /**
+   * Check whether the given text looks like this format
+   * @param text - Raw transcript content
+   * @returns True if this parser should handle the text
+   */
+  detect(text: string): boolean;
+  /**
+   * Parse raw transcript content into segments
+   * @param text - Raw transcript content
+   * @returns Array of parsed segments in source order
+   */
+  parse(text: string): TranscriptSegment[];
+  /**
+   * Find where the last segment of a run of text starts, so text read in chunks can be parsed a
+   * chunk at a time. Without it, a chunked transcript is parsed once it has been read in full
+   * @param text - Raw transcript content, possibly cut off in its last segment
+   * @returns Offset of the line that starts the last segment, or -1 if there is none
+   */
+  lastSegmentStart?(text: string): number;
+}
+
+/**
+ * A transcript, or part of one, in the common segment model
+ */
+export interface ParsedTranscript {
+  format: string; // name of the parser used
+  segments: TranscriptSegment[];
+  timed: boolean; // false for plain text, which the bracket parser reads with every segment at zero
+}
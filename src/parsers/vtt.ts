@@ -0,0 +1,82 @@
+import { TranscriptParser, TranscriptSegment } from './types.js';
+import { lastBlockStart, parseCueTiming, splitBlocks } from './timecode.js';
+
+/**
+ * Decode the character references allowed in WebVTT cue text
+ * @param text - Cue text
+ * @returns Text with entities replaced
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parser for WebVTT (.vtt) caption files
+ */
+export const vttParser: TranscriptParser = {
+  name: 'vtt',
+
+  detect(text: string): boolean {
+    return /^\uFEFF?WEBVTT(?:[ \t].*)?(?:\r?\n|$)/.test(text);
+  },
+
+  parse(text: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    const blocks = splitBlocks(text);
+
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+
+      // Skip the file header and NOTE, STYLE and REGION blocks
+      if (i === 0 && block[0].startsWith('WEBVTT')) {
+        continue;
+      }
+      if (/^(NOTE|STYLE|REGION)\b/.test(block[0])) {
+        continue;
+      }
+
+      // An optional cue identifier may precede the timing line
+      const timingIndex = block.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) {
+        continue;
+      }
+
+      // Cue settings after the end time are ignored by parseCueTiming
+      const timing = parseCueTiming(block[timingIndex]);
+      if (!timing) {
+        continue;
+      }
+
+      let speaker: string | null = null;
+      const lines: string[] = [];
+
+      for (const line of block.slice(timingIndex + 1)) {
+        // Voice spans look like <v Speaker> or <v.loud Speaker>
+        const voice = line.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+        if (voice && speaker === null) {
+          speaker = voice[1].trim();
+        }
+
+        const cleaned = decodeEntities(line.replace(/<[^>]+>/g, '')).trim();
+        if (cleaned !== '') {
+          lines.push(cleaned);
+        }
+      }
+
+      if (lines.length === 0) {
+        continue;
+      }
+
+      segments.push({ start: timing.start, end: timing.end, text: lines.join(' '), speaker });
+    }
+
+    return segments;
+  },
+
+  lastSegmentStart: lastBlockStart
+};
@@ -0,0 +1,154 @@
+import path from 'path';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, SessionRecord } from '../utils/session-store.js';
+
+/**
+ * An MCP resource descriptor
+ */
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * An MCP resource template descriptor
+ */
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Sessions beyond this many (newest first) are reachable through templates only
+const MAX_LISTED_SESSIONS = 100;
+
+const URI_PREFIX = 'transcripts://sessions/';
+
+// MIME types by artifact file extension
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.json': 'application/json',
+  '.srt': 'application/x-subrip',
+  '.vtt': 'text/vtt',
+  '.md': 'text/markdown'
+};
+
+/**
+ * Guess the MIME type of an artifact from its file name
+ * @param filePath - Artifact file path
+ * @returns MIME type, defaulting to plain text
+ */
+function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'text/plain';
+}
+
+/**
+ * List every session record and artifact as a resource
+ * @returns Promise resolving to the resource descriptors, newest sessions first
+ */
+export async function listSessionResources(): Promise<ResourceDescriptor[]> {
+  const sessions = await new SessionStore().list({ limit: MAX_LISTED_SESSIONS });
+  const resources: ResourceDescriptor[] = [];
+
+  for (const session of sessions) {
+    resources.push({
+      uri: `${URI_PREFIX}${session.id}`,
+      name: `${session.tool} session ${session.id}`,
+      description: `Record of a ${session.tool} run (${session.status}) at ${session.created_at}`,
+      mimeType: 'application/json'
+    });
+
+    for (const [artifact, filePath] of Object.entries(session.artifacts || {})) {
+      resources.push({
+        uri: `${URI_PREFIX}${session.id}/${artifact}`,
+        name: `${session.tool} ${artifact} ${session.id}`,
+        mimeType: mimeTypeFor(filePath)
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * List the URI templates for session resources
+ * @returns The resource template descriptors
+ */
+export function listSessionResourceTemplates(): ResourceTemplateDescriptor[] {
+  return [
+    {
+      uriTemplate: `${URI_PREFIX}{id}`,
+      name: 'Session record',
+      description: 'Tool, inputs, outputs and statistics of a session',
+      mimeType: 'application/json'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/repaired`,
+      name: 'Repaired text',
+      description: 'Text written by repair_text or apply_repairs',
+      mimeType: 'text/plain'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/log`,
+      name: 'Processing log',
+      description: 'Repair or summary log of a session',
+      mimeType: 'text/plain'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/summary`,
+      name: 'Summary',
+      description: 'Summary produced by summary_text',
+      mimeType: 'text/plain'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/formatted`,
+      name: 'Formatted transcript',
+      description: 'Output of format_transcript in the requested format'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/proposals`,
+      name: 'Repair proposals',
+      description: 'Corrections proposed by a dry-run repair_text',
+      mimeType: 'application/json'
+    },
+    {
+      uriTemplate: `${URI_PREFIX}{id}/redacted`,
+      name: 'Redacted text',
+      description: 'Transcript with personal data replaced by redact_text',
+      mimeType: 'text/plain'
+    }
+  ];
+}
+
+/**
+ * Read a session resource
+ * @param uri - Resource URI, either a session record or one of its artifacts
+ * @returns Promise resolving to the resource contents
+ */
+export async function readSessionResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  if (!uri.startsWith(URI_PREFIX)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const [sessionId, artifact, ...rest] = uri.slice(URI_PREFIX.length).split('/');
+  if (!sessionId || rest.length > 0 || !SessionStore.isValidId(sessionId)) {
+    throw new Error(`Invalid session resource URI: ${uri}`);
+  }
+
+  const session: SessionRecord = await new SessionStore().get(sessionId);
+
+  if (!artifact) {
+    return { uri, mimeType: 'application/json', text: JSON.stringify(session, null, 2) };
+  }
+
+  const filePath = (session.artifacts || {})[artifact];
+  if (!filePath) {
+    throw new Error(`Session ${sessionId} has no ${artifact} output`);
+  }
+
+  return { uri, mimeType: mimeTypeFor(filePath), text: await FileHandler.readTextFile(filePath) };
+}
@@ -0,0 +1,355 @@
+import path from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore } from '../utils/session-store.js';
+import { globToRegExp, splitGlob } from '../utils/glob.js';
+import { textChunks } from '../utils/chunks.js';
+import { ProgressContext, throwIfCancelled } from '../utils/progress.js';
+import { FormatOptions } from './formatting.js';
+import { RepairOptions } from './repair.js';
+import { SummaryOptions } from './summary.js';
+import { runPipeline, runStage, validateStages, PipelineStage, PipelineStageName, PIPELINE_STAGES } from './pipeline.js';
+
+export type BatchOperation = PipelineStageName | 'pipeline';
+
+/**
+ * Interface for the batch_process function parameters
+ * Files come from either a directory or a glob pattern
+ */
+export interface BatchProcessParams {
+  directory?: string;
+  glob?: string; // pattern such as 'season1/*.srt', taken from the first input root when relative
+  extensions?: string[]; // file extensions taken from a directory, '.txt', '.srt' and '.vtt' by default
+  recursive?: boolean; // whether a directory's subdirectories are included
+  operation: BatchOperation;
+  params?: FormatOptions | RepairOptions | SummaryOptions; // settings of a single operation
+  stages?: PipelineStage[]; // stages of the 'pipeline' operation
+  output_dir?: string; // folder in the output workspace, batch_<session id> by default
+  output_name?: string; // name template for each output file
+  concurrency?: number; // files processed at the same time
+  continue_on_error?: boolean; // keep going after a file fails, true by default
+  manifest_format?: 'json' | 'csv';
+}
+
+/**
+ * Outcome of one file of a batch, as listed in the manifest
+ */
+export interface BatchEntry {
+  input: string;
+  output: string | null;
+  status: 'completed' | 'failed' | 'skipped';
+  session_id: string | null; // session that processed the file
+  duration_ms: number;
+  stats: Record<string, unknown>;
+  error?: string;
+  renamed_from?: string; // output path the name template gave, when a file was already there
+}
+
+/**
+ * Result of batch_process
+ */
+export interface BatchProcessResult {
+  session_id: string;
+  output_dir: string;
+  manifest: string;
+  total: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  files: Array<Omit<BatchEntry, 'stats' | 'duration_ms'>>;
+}
+
+export const BATCH_OPERATIONS: BatchOperation[] = [...PIPELINE_STAGES, 'pipeline'];
+
+// Tool each file's session is recorded under
+const OPERATION_TOOLS: Record<BatchOperation, string> = {
+  format: 'format_transcript',
+  repair: 'repair_text',
+  summarize: 'summary_text',
+  pipeline: 'process_transcript'
+};
+
+const DEFAULT_EXTENSIONS = ['.txt', '.srt', '.vtt'];
+
+// Output names keep the input's name and add the operation and the output's extension
+const DEFAULT_OUTPUT_NAME = '{name}.{operation}{ext}';
+const NAME_PLACEHOLDERS = ['name', 'operation', 'ext', 'input_ext'];
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 8;
+
+const MANIFEST_COLUMNS: Array<keyof BatchEntry> = ['input', 'output', 'renamed_from', 'status', 'session_id', 'duration_ms', 'error', 'stats'];
+
+/**
+ * Check the output name template
+ * @param template - Template supplied by the caller
+ */
+function validateOutputName(template: string): void {
+  const unknown = [...template.matchAll(/\{([^}]*)\}/g)]
+    .map(match => match[1])
+    .filter(placeholder => !NAME_PLACEHOLDERS.includes(placeholder));
+  if (unknown.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown output_name placeholder(s): ${unknown.join(', ')}; available: ${NAME_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`
+    );
+  }
+  if (!template.includes('{name}')) {
+    throw new McpError(ErrorCode.InvalidParams, 'output_name must contain {name}');
+  }
+  if (/[/\\]/.test(template)) {
+    throw new McpError(ErrorCode.InvalidParams, 'output_name must be a file name, without directories');
+  }
+}
+
+/**
+ * Fill in the output name template for one file
+ * @param template - Validated template
+ * @param input - Input file path
+ * @param operation - Batch operation
+ * @param extension - Extension of the output, with its dot
+ * @returns File name
+ */
+function renderOutputName(template: string, input: string, operation: BatchOperation, extension: string): string {
+  const inputExtension = path.extname(input);
+  const values: Record<string, string> = {
+    name: path.basename(input, inputExtension),
+    operation,
+    ext: extension,
+    input_ext: inputExtension
+  };
+  return template.replace(/\{([^}]*)\}/g, (_, placeholder: string) => values[placeholder]);
+}
+
+/**
+ * Find the input files of a batch
+ * @param params - Batch parameters
+ * @returns Promise resolving to the real path of the directory searched and the files' paths
+ * relative to it, in path order
+ */
+async function listBatchFiles(params: BatchProcessParams): Promise<{ base: string; files: string[] }> {
+  const { directory, glob, extensions = DEFAULT_EXTENSIONS, recursive = false } = params;
+  
+  if (directory !== undefined) {
+    const base = await FileHandler.resolveInputDirectory(directory);
+    const files = await FileHandler.listInputFiles(base, extensions, recursive);
+    return { base, files: files.map(file => file.relativePath) };
+  }
+  
+  const split = splitGlob(glob as string);
+  const matcher = globToRegExp(split.pattern);
+  const base = await FileHandler.resolveInputDirectory(split.base);
+  const files = await FileHandler.listInputFiles(base, null, split.recursive);
+  return {
+    base,
+    files: files
+      .map(file => file.relativePath)
+      .filter(relativePath => matcher.test(relativePath.split(path.sep).join('/')))
+  };
+}
+
+/**
+ * Quote a manifest value for CSV
+ * @param value - Cell value
+ * @returns CSV field
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render the manifest of a batch
+ * @param entries - Outcome of each file
+ * @param format - Manifest format
+ * @returns Manifest content
+ */
+function renderManifest(entries: BatchEntry[], format: 'json' | 'csv'): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+  const rows = entries.map(entry => MANIFEST_COLUMNS.map(column => csvField(entry[column])).join(','));
+  return [MANIFEST_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Applies format, repair, summarize or a pipeline to every transcript in a directory or
+ * matching a glob, writing one output per file and a manifest of the results
+ * Each file is processed in its own session; outputs go to the output workspace under names
+ * that never replace an input file or another output of the same batch
+ * @param params - Files, operation and output settings of the batch
+ * @param progress - Progress context of the request, advanced as files finish
+ * @returns Object containing the output folder, the manifest path and the outcome of each file
+ */
+export async function batchProcess(
+  params: BatchProcessParams,
+  progress: ProgressContext = {}
+): Promise<BatchProcessResult> {
+  try {
+    const {
+      directory,
+      glob,
+      operation,
+      params: operationParams = {},
+      stages = [],
+      output_dir,
+      output_name = DEFAULT_OUTPUT_NAME,
+      concurrency = DEFAULT_CONCURRENCY,
+      continue_on_error = true,
+      manifest_format = 'json'
+    } = params;
+    
+    // Check everything the files depend on before the first one is read
+    if ((directory === undefined) === (glob === undefined)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Exactly one of directory or glob is required');
+    }
+    if (!BATCH_OPERATIONS.includes(operation)) {
+      throw new McpError(ErrorCode.InvalidParams, `operation must be one of ${BATCH_OPERATIONS.join(', ')}`);
+    }
+    const batchStages: PipelineStage[] = operation === 'pipeline' ? stages : [{ stage: operation, params: operationParams }];
+    validateStages(batchStages);
+    if (batchStages.some(entry => entry.stage === 'repair' && (entry.params as RepairOptions | undefined)?.dry_run)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Repair dry runs write no output and cannot be batched');
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new McpError(ErrorCode.InvalidParams, `concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`);
+    }
+    if (manifest_format !== 'json' && manifest_format !== 'csv') {
+      throw new McpError(ErrorCode.InvalidParams, 'manifest_format must be json or csv');
+    }
+    validateOutputName(output_name);
+    
+    const { base, files } = await listBatchFiles(params);
+    if (files.length === 0) {
+      throw new Error(`No files match ${directory ?? glob}`);
+    }
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('batch_process', params, async session => {
+      // Outputs mirror the layout of the inputs below the folder they were taken from
+      const outputDir = output_dir ?? `batch_${session.id}`;
+      const claimed = new Set<string>();
+      
+      // A name is checked and claimed without awaiting in between, so files finishing together
+      // cannot pick the same one. The file is then created only if nothing is there yet, so a name
+      // that lands on an input or any other existing file moves on to the next suffix
+      const claimPath = async (fileName: string): Promise<string> => {
+        const stem = fileName.slice(0, fileName.length - path.extname(fileName).length);
+        
+        for (let n = 1; ; n++) {
+          const candidate = n === 1 ? fileName : `${stem}-${n}${path.extname(fileName)}`;
+          if (claimed.has(candidate)) {
+            continue;
+          }
+          claimed.add(candidate);
+          
+          const target = await FileHandler.resolveOutputPath(candidate);
+          if (await FileHandler.createNewFile(target)) {
+            return target;
+          }
+        }
+      };
+      
+      const manifest = await claimPath(path.join(outputDir, `manifest.${manifest_format}`));
+      
+      const processFile = async (file: string): Promise<BatchEntry> => {
+        const input = path.join(base, file);
+        const started = Date.now();
+        const entry: BatchEntry = { input, output: null, status: 'failed', session_id: null, duration_ms: 0, stats: {} };
+        const fileProgress: ProgressContext = { signal: progress.signal };
+        
+        try {
+          const tool = OPERATION_TOOLS[operation];
+          const recorded = operation === 'pipeline'
+            ? { input_text: input, is_file_path: true, stages, batch_session_id: session.id }
+            : { input_text: input, is_file_path: true, ...operationParams, batch_session_id: session.id };
+          
+          await new SessionStore().track(tool, recorded, async fileSession => {
+            entry.session_id = fileSession.id;
+            const textContent = await FileHandler.openInputFile(input, fileProgress);
+            // The claimed output is the only file written for the input, so repairs keep theirs with the session
+            const { text, artifact } = operation === 'pipeline'
+              ? await runPipeline(textContent, input, batchStages, fileSession, fileProgress, false)
+              : await runStage(batchStages[0], textContent, input, fileSession, fileProgress, false);
+            
+            const fileName = renderOutputName(output_name, file, operation, artifact ? path.extname(artifact) : '.txt');
+            const output = await claimPath(path.join(outputDir, path.dirname(file), fileName));
+            if (path.basename(output) !== fileName) {
+              entry.renamed_from = path.join(path.dirname(output), fileName);
+            }
+            for await (const chunk of textChunks(text, 0)) {
+              await FileHandler.appendTextFile(output, chunk);
+            }
+            fileSession.artifacts.batch_output = output;
+            entry.output = output;
+            entry.stats = fileSession.stats;
+            return { output_file: output };
+          });
+          entry.status = 'completed';
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : String(error);
+        }
+        
+        entry.duration_ms = Date.now() - started;
+        return entry;
+      };
+      
+      // A fixed number of workers take the next file until none are left, or one fails and the batch stops
+      const entries: BatchEntry[] = files.map(file => ({
+        input: path.join(base, file),
+        output: null,
+        status: 'skipped',
+        session_id: null,
+        duration_ms: 0,
+        stats: {}
+      }));
+      let next = 0;
+      let finished = 0;
+      let stopped = false;
+      
+      const worker = async (): Promise<void> => {
+        while (next < files.length && !stopped && !progress.signal?.aborted) {
+          const i = next++;
+          entries[i] = await processFile(files[i]);
+          if (entries[i].status === 'failed' && !continue_on_error) {
+            stopped = true;
+          }
+          progress.onProgress?.(++finished, files.length);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+      throwIfCancelled(progress);
+      
+      const manifestContent = renderManifest(entries, manifest_format);
+      await FileHandler.writeTextFile(manifest, manifestContent);
+      await new SessionStore().saveArtifact(session, 'manifest', manifestContent, manifest_format);
+      
+      const count = (status: BatchEntry['status']) => entries.filter(entry => entry.status === status).length;
+      session.stats = {
+        files: files.length,
+        completed: count('completed'),
+        failed: count('failed'),
+        skipped: count('skipped')
+      };
+      
+      return {
+        session_id: session.id,
+        output_dir: path.dirname(manifest),
+        manifest,
+        total: files.length,
+        completed: count('completed'),
+        failed: count('failed'),
+        skipped: count('skipped'),
+        files: entries.map(({ stats, duration_ms, ...rest }) => rest)
+      };
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Batch failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,259 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { parseTranscript } from '../parsers/index.js';
+import { renderChapters, Chapter, ChapterFormat } from '../writers/index.js';
+import { extractKeyPhrases, toTitleCase } from '../utils/key-phrases.js';
+import { needsPunctuation, restorePunctuation } from '../utils/punctuation.js';
+import { segmentSentences } from '../utils/sentences.js';
+import { gapScores, segmentTopics } from '../utils/topics.js';
+import { resolveLanguage } from '../utils/languages.js';
+
+/**
+ * Interface for the generate_chapters function parameters
+ */
+export interface GenerateChaptersParams {
+  input_text: string;
+  is_file_path?: boolean;
+  input_format?: string; // 'auto', 'bracket', 'srt', 'vtt' or a registered parser
+  output_format?: ChapterFormat;
+  min_chapter_length?: number; // seconds
+  max_chapter_length?: number; // seconds, no limit by default
+  speaker_map?: Record<string, string>; // source label -> display name
+  language?: string; // 'auto' or a language code
+}
+
+/**
+ * Chapter settings, without the input they apply to
+ */
+export type ChapterOptions = Omit<GenerateChaptersParams, 'input_text' | 'is_file_path'>;
+
+/**
+ * Result of generate_chapters
+ */
+export interface ChaptersResult {
+  chapters_text: string; // rendered in the requested output format
+  chapters: Chapter[];
+}
+
+// File extension used when storing each output format as a session artifact
+const ARTIFACT_EXTENSIONS: Record<ChapterFormat, string> = {
+  youtube: 'txt',
+  vtt: 'vtt',
+  json: 'json'
+};
+
+// Key phrases listed for each chapter; the title is taken from the first few
+const KEY_PHRASE_COUNT = 3;
+const TITLE_CANDIDATES = 5;
+
+/**
+ * Merge chapters shorter than the minimum into a neighbour
+ * The shortest chapter goes first, losing whichever of its boundaries the text flows across more smoothly
+ * @param edges - Chapter boundaries as sentence indexes, from 0 to the sentence count
+ * @param time - Start time of the sentence at a boundary
+ * @param scores - Lexical cohesion across each gap between sentences
+ * @param minLength - Shortest chapter allowed, in seconds
+ * @returns The remaining boundaries
+ */
+function mergeShortChapters(
+  edges: number[],
+  time: (edge: number) => number,
+  scores: number[],
+  minLength: number
+): number[] {
+  const result = [...edges];
+  
+  while (result.length > 2) {
+    let shortest = -1;
+    let shortestLength = minLength;
+    for (let c = 0; c < result.length - 1; c++) {
+      const length = time(result[c + 1]) - time(result[c]);
+      if (length < shortestLength) {
+        shortest = c;
+        shortestLength = length;
+      }
+    }
+    if (shortest === -1) {
+      break;
+    }
+    
+    const left = shortest;
+    const right = shortest + 1;
+    let drop: number;
+    if (left === 0) {
+      drop = right;
+    } else if (right === result.length - 1) {
+      drop = left;
+    } else {
+      drop = scores[result[left]] >= scores[result[right]] ? left : right;
+    }
+    result.splice(drop, 1);
+  }
+  
+  return result;
+}
+
+/**
+ * Split chapters longer than the maximum at their least cohesive gaps
+ * Cuts leave both parts at least minLength long where the chapter allows it
+ * @param edges - Chapter boundaries as sentence indexes, from 0 to the sentence count
+ * @param time - Start time of the sentence at a boundary
+ * @param scores - Lexical cohesion across each gap between sentences
+ * @param minLength - Shortest chapter wanted, in seconds
+ * @param maxLength - Longest chapter allowed, in seconds
+ * @returns Boundaries with the long chapters divided
+ */
+function splitLongChapters(
+  edges: number[],
+  time: (edge: number) => number,
+  scores: number[],
+  minLength: number,
+  maxLength: number
+): number[] {
+  const split = (from: number, to: number): number[] => {
+    if (time(to) - time(from) <= maxLength) {
+      return [];
+    }
+    
+    // Only gaps that move the clock forward can divide the chapter's time
+    const gaps: number[] = [];
+    for (let g = from + 1; g < to; g++) {
+      if (time(g) > time(from) && time(g) < time(to)) {
+        gaps.push(g);
+      }
+    }
+    const fitting = gaps.filter(g => time(g) - time(from) >= minLength && time(to) - time(g) >= minLength);
+    const pool = fitting.length > 0 ? fitting : gaps;
+    if (pool.length === 0) {
+      return [];
+    }
+    
+    // Ties go to the gap nearest the middle
+    const middle = (time(from) + time(to)) / 2;
+    const cut = pool.reduce((best, g) =>
+      scores[g] < scores[best]
+        || (scores[g] === scores[best] && Math.abs(time(g) - middle) < Math.abs(time(best) - middle))
+        ? g
+        : best
+    );
+    
+    return [...split(from, cut), cut, ...split(cut, to)];
+  };
+  
+  return edges.flatMap((edge, i) => i === 0 ? [edge] : [...split(edges[i - 1], edge), edge]);
+}
+
+/**
+ * Generate chapters within an existing session
+ * @param textContent - Timestamped transcript text
+ * @param options - Chapter settings
+ * @param session - Session receiving the stats and artifacts
+ * @returns Promise resolving to the rendered chapters and their details
+ */
+export async function chapterContent(
+  textContent: string,
+  options: ChapterOptions,
+  session: ActiveSession
+): Promise<ChaptersResult> {
+  const {
+    input_format = 'auto',
+    output_format = 'youtube',
+    min_chapter_length = 60,
+    max_chapter_length,
+    speaker_map = {},
+    language = 'auto'
+  } = options;
+  
+  if (max_chapter_length !== undefined && max_chapter_length < min_chapter_length) {
+    throw new McpError(ErrorCode.InvalidParams, 'max_chapter_length must not be less than min_chapter_length');
+  }
+  
+  const { format, segments, timed } = parseTranscript(textContent, input_format, speaker_map);
+  if (!timed) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Chapters need a timestamped transcript (SRT, WebVTT or [hh:mm:ss] lines)'
+    );
+  }
+  
+  // Raw speech recognition output has no sentence marks to split on until they are restored
+  const resolvedLanguage = resolveLanguage(language, segments.map(segment => segment.text).join('\n'));
+  const sentenceSource = needsPunctuation(segments)
+    ? restorePunctuation(segments, timed, { language: resolvedLanguage }).segments
+    : segments;
+  const spoken = segmentSentences(sentenceSource, timed);
+  const sentences = spoken.map(sentence => sentence.text);
+  if (spoken.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'The transcript has no text to divide into chapters');
+  }
+  
+  // Times are known for every sentence of a timed transcript
+  const last = spoken[spoken.length - 1];
+  const finalEnd = last.end ?? last.start ?? 0;
+  const time = (edge: number): number => edge < spoken.length ? spoken[edge].start ?? 0 : finalEnd;
+  
+  // Topic boundaries from TextTiling, then fitted to the length limits
+  const sections = segmentTopics(sentences, { language: resolvedLanguage });
+  const scores = gapScores(sentences, undefined, resolvedLanguage);
+  let edges = [...sections.map(section => section.start), spoken.length];
+  edges = mergeShortChapters(edges, time, scores, min_chapter_length);
+  if (max_chapter_length !== undefined) {
+    edges = splitLongChapters(edges, time, scores, min_chapter_length, max_chapter_length);
+  }
+  
+  // Title each chapter by its top key phrase, avoiding titles already used
+  const usedTitles = new Set<string>();
+  const chapters: Chapter[] = edges.slice(0, -1).map((from, i) => {
+    const to = edges[i + 1];
+    const phrases = extractKeyPhrases(sentences.slice(from, to).join(' '), TITLE_CANDIDATES, resolvedLanguage);
+    const titlePhrase = phrases.find(phrase => !usedTitles.has(phrase.phrase));
+    if (titlePhrase) {
+      usedTitles.add(titlePhrase.phrase);
+    }
+    
+    return {
+      start: time(from),
+      end: time(to),
+      title: titlePhrase ? toTitleCase(titlePhrase.phrase) : `Chapter ${i + 1}`,
+      key_phrases: phrases.slice(0, KEY_PHRASE_COUNT).map(phrase => phrase.phrase)
+    };
+  });
+  
+  const chaptersText = renderChapters(output_format, chapters);
+  
+  await new SessionStore().saveArtifact(session, 'chapters', chaptersText, ARTIFACT_EXTENSIONS[output_format]);
+  session.stats = {
+    inputFormat: format,
+    language: resolvedLanguage,
+    sentences: spoken.length,
+    topicSections: sections.length,
+    chapters: chapters.length
+  };
+  
+  return { chapters_text: chaptersText, chapters };
+}
+
+/**
+ * Divides a timestamped transcript into titled chapters
+ * @param params - Parameters for chapter generation
+ * @returns Object containing the rendered chapter list and the chapters
+ */
+export async function generateChapters(params: GenerateChaptersParams): Promise<ChaptersResult> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
+    
+    // Resolve content (either direct text or from file)
+    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('generate_chapters', params, session =>
+      chapterContent(textContent, options, session)
+    );
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Chapter generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,234 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { Logger } from '../utils/logger.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { parseTranscript } from '../parsers/index.js';
+import { joinText, resolveLanguage, LANGUAGES } from '../utils/languages.js';
+import { normalizeTokens, NormalizationOptions } from '../utils/normalization.js';
+import { alignTokens, countEdits, errorRate, topConfusions, Confusion, EditCounts } from '../utils/alignment.js';
+
+/**
+ * Interface for the compare_transcripts function parameters
+ * Either a hypothesis or a repair session is scored against the reference
+ */
+export interface CompareTranscriptsParams {
+  reference_text: string;
+  hypothesis_text?: string;
+  is_file_path?: boolean; // whether both texts are file paths
+  session_id?: string; // repair session whose text is scored before and after repair
+  input_format?: string; // 'auto', 'bracket', 'srt', 'vtt' or a registered parser
+  normalization?: NormalizationOptions;
+  max_confusions?: number;
+  language?: string; // 'auto' or a language code
+}
+
+/**
+ * Score of one transcript against the reference
+ */
+export interface TranscriptScore extends EditCounts {
+  wer: number; // word error rate, as a fraction of the reference words
+  cer: number; // character error rate
+  reference_words: number;
+  hypothesis_words: number;
+  confusions: Confusion[];
+}
+
+/**
+ * Result of compare_transcripts
+ */
+export type CompareTranscriptsResult =
+  | ({ session_id: string; language: string } & TranscriptScore)
+  | {
+      session_id: string;
+      language: string;
+      repair_session_id: string;
+      before: TranscriptScore;
+      after: TranscriptScore;
+      improvement: {
+        wer: number; // reduction in word error rate; negative when the repair made things worse
+        cer: number;
+        relative_wer: number; // percentage of the word errors before repair that were removed
+        errors_removed: number; // net change in word errors
+      };
+    };
+
+// Number of confusions listed by default
+const DEFAULT_MAX_CONFUSIONS = 10;
+
+// Decimal places kept in error rates
+const RATE_PRECISION = 4;
+
+/**
+ * Round an error rate for reporting
+ * @param rate - Error rate
+ * @returns Rounded rate
+ */
+function roundRate(rate: number): number {
+  return Number(rate.toFixed(RATE_PRECISION));
+}
+
+/**
+ * The spoken words of a transcript, without timestamps or speaker labels
+ * @param text - Transcript text in any supported format
+ * @param format - Parser name, or 'auto' to detect
+ * @returns Spoken text
+ */
+function spokenText(text: string, format: string): string {
+  return parseTranscript(text, format).segments.map(segment => segment.text).reduce(joinText, '');
+}
+
+/**
+ * Score a transcript against the reference
+ * @param reference - Normalized reference tokens
+ * @param text - Spoken text of the transcript
+ * @param language - Language code
+ * @param normalization - Differences to ignore
+ * @param maxConfusions - Number of confusions to list
+ * @returns Word and character error rates with the edits behind them
+ */
+function scoreTranscript(
+  reference: string[],
+  text: string,
+  language: string,
+  normalization: NormalizationOptions,
+  maxConfusions: number
+): TranscriptScore {
+  const hypothesis = normalizeTokens(text, language, normalization);
+  const words = alignTokens(reference, hypothesis);
+  const counts = countEdits(words);
+  
+  // Characters are compared over the normalized text, spaces included where the language uses them
+  const separator = LANGUAGES[language].spaced ? ' ' : '';
+  const characters = countEdits(alignTokens([...reference.join(separator)], [...hypothesis.join(separator)]));
+  
+  return {
+    wer: roundRate(errorRate(counts)),
+    cer: roundRate(errorRate(characters)),
+    reference_words: reference.length,
+    hypothesis_words: hypothesis.length,
+    ...counts,
+    confusions: topConfusions(words, maxConfusions)
+  };
+}
+
+/**
+ * Load the text a repair session started from and the text it produced
+ * @param sessionId - Repair session ID
+ * @returns Promise resolving to the text before and after repair
+ */
+async function loadRepairSession(sessionId: string): Promise<{ before: string; after: string }> {
+  if (!SessionStore.isValidId(sessionId)) {
+    throw new Error(`Invalid session ID: ${sessionId}`);
+  }
+  
+  const record = await new SessionStore().get(sessionId);
+  if (!record.artifacts.repaired) {
+    throw new Error(`Session ${sessionId} has no repaired text; run repair_text without dry_run or apply its repairs first`);
+  }
+  
+  // Applied runs keep their input as an artifact; reviewed dry runs keep it with the proposals
+  let before: string;
+  if (record.artifacts.original) {
+    before = await FileHandler.readTextFile(record.artifacts.original);
+  } else {
+    try {
+      before = (await new Logger(sessionId).readRepairProposals()).text;
+    } catch (error) {
+      throw new Error(`Session ${sessionId} does not keep the text it repaired`);
+    }
+  }
+  
+  return { before, after: await FileHandler.readTextFile(record.artifacts.repaired) };
+}
+
+/**
+ * Compare transcripts within an existing session
+ * @param referenceText - Reference transcript
+ * @param hypotheses - Transcripts to score, by name
+ * @param options - Comparison settings
+ * @param session - Session receiving the stats and artifacts
+ * @returns Promise resolving to the language and the score of each transcript
+ */
+async function compareContent(
+  referenceText: string,
+  hypotheses: Record<string, string>,
+  options: Pick<CompareTranscriptsParams, 'input_format' | 'normalization' | 'max_confusions' | 'language'>,
+  session: ActiveSession
+): Promise<{ language: string; scores: Record<string, TranscriptScore> }> {
+  const {
+    input_format = 'auto',
+    normalization = {},
+    max_confusions = DEFAULT_MAX_CONFUSIONS,
+    language = 'auto'
+  } = options;
+  
+  const reference = spokenText(referenceText, input_format);
+  const resolvedLanguage = resolveLanguage(language, reference);
+  const referenceTokens = normalizeTokens(reference, resolvedLanguage, normalization);
+  
+  const scores: Record<string, TranscriptScore> = {};
+  for (const [name, text] of Object.entries(hypotheses)) {
+    const spoken = spokenText(text, input_format);
+    scores[name] = scoreTranscript(referenceTokens, spoken, resolvedLanguage, normalization, max_confusions);
+  }
+  
+  await new SessionStore().saveArtifact(session, 'comparison', JSON.stringify(scores, null, 2), 'json');
+  session.stats = {
+    language: resolvedLanguage,
+    referenceWords: referenceTokens.length,
+    ...Object.fromEntries(Object.entries(scores).map(([name, score]) => [`${name}Wer`, score.wer]))
+  };
+  
+  return { language: resolvedLanguage, scores };
+}
+
+/**
+ * Scores a transcript against a reference, or measures how much a repair session improved one
+ * @param params - Parameters for the comparison
+ * @returns Object containing the error rates and most frequent confusions, before and after
+ * repair when a session is given
+ */
+export async function compareTranscripts(params: CompareTranscriptsParams): Promise<CompareTranscriptsResult> {
+  try {
+    const { reference_text, hypothesis_text, is_file_path = false, session_id, ...options } = params;
+    if (hypothesis_text === undefined && session_id === undefined) {
+      throw new Error('Either hypothesis_text or session_id is required');
+    }
+    
+    // Resolve content (either direct text or from file)
+    const referenceText = await FileHandler.resolveTextContent(reference_text, is_file_path);
+    const hypotheses = session_id !== undefined
+      ? await loadRepairSession(session_id)
+      : { hypothesis: await FileHandler.resolveTextContent(hypothesis_text as string, is_file_path) };
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('compare_transcripts', params, async session => {
+      const { language, scores } = await compareContent(referenceText, hypotheses, options, session);
+      if (session_id === undefined) {
+        return { session_id: session.id, language, ...scores.hypothesis };
+      }
+      
+      const { before, after } = scores;
+      const errorsBefore = before.substitutions + before.insertions + before.deletions;
+      const errorsAfter = after.substitutions + after.insertions + after.deletions;
+      return {
+        session_id: session.id,
+        language,
+        repair_session_id: session_id,
+        before,
+        after,
+        improvement: {
+          wer: roundRate(before.wer - after.wer),
+          cer: roundRate(before.cer - after.cer),
+          relative_wer: errorsBefore > 0 ? Math.round((errorsBefore - errorsAfter) / errorsBefore * 100) : 0,
+          errors_removed: errorsBefore - errorsAfter
+        }
+      };
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Comparison failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,4 +1,22 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
 import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { parseTranscriptChunks, TranscriptSegment } from '../parsers/index.js';
+import { createTranscriptWriter, FormattedParagraph, OutputFormat } from '../writers/index.js';
+import { cleanSegments, DisfluencyCounts, FillerLexicon, FILLER_LEXICONS, VerbatimLevel } from '../utils/disfluency.js';
+import {
+  lastSegmentBreak,
+  needsPunctuation,
+  restorePunctuation,
+  PunctuationMode,
+  PunctuationOptions,
+  PunctuationStats
+} from '../utils/punctuation.js';
+import { loadSelectedGlossary, properNouns } from '../utils/glossary.js';
+import { batchSegments, textChunks, TextSource } from '../utils/chunks.js';
+import { getConfig } from '../utils/config.js';
+import { ProgressContext } from '../utils/progress.js';
+import { joinText, resolveLanguage } from '../utils/languages.js';
 
 /**
  * Interface for the format_transcript function parameters
@@ -8,108 +26,282 @@ export interface FormatTranscriptParams {
   is_file_path?: boolean;
   paragraph_gap?: number; // seconds
   line_gap?: number; // seconds
+  input_format?: string; // 'auto', 'bracket', 'srt', 'vtt' or a registered parser
+  timestamp_pattern?: string; // regular expression with a named start group, overriding input_format
+  output_format?: OutputFormat;
+  max_cue_chars?: number; // caption output only
+  max_cue_duration?: number; // seconds, caption output only
+  speaker_map?: Record<string, string>; // source label -> display name
+  verbatim_level?: VerbatimLevel; // 'full' keeps every filler and repetition
+  language?: string; // 'auto' or a language code, choosing the filler lexicon and punctuation
+  fillers?: string[]; // extra filler words for this transcript
+  restore_punctuation?: PunctuationMode; // 'auto' restores only unpunctuated text
+  pause_threshold?: number; // seconds of silence that end a restored sentence
+  glossary_path?: string; // proper nouns to capitalize when restoring
 }
 
 /**
- * Transforms timestamped transcripts into naturally formatted text
- * @param params - Parameters for the formatting process
- * @returns Object containing the formatted text
+ * Result of formatting a transcript: the formatted text for inline input, or the file it was
+ * written to for an input file
  */
-export async function formatTranscript(params: FormatTranscriptParams): Promise<{ formatted_text: string }> {
-  try {
-    const { 
-      input_text, 
-      is_file_path = false, 
-      paragraph_gap = 8, // default 8 seconds for paragraph breaks
-      line_gap = 4 // default 4 seconds for line breaks
-    } = params;
-    
-    // Resolve content (either direct text or from file)
-    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
-    
-    // Parse the timestamped transcript
-    const lines = textContent.trim().split('\n');
-    
-    // This will store our processed text segments with their timestamps
-    const segments: Array<{ time: number; text: string }> = [];
+export interface FormatResult {
+  formatted_text?: string;
+  output_file?: string;
+  removed?: DisfluencyCounts; // tokens dropped below full verbatim
+}
+
+/**
+ * Formatting settings, without the input they apply to
+ */
+export type FormatOptions = Omit<FormatTranscriptParams, 'input_text' | 'is_file_path'>;
+
+// File extension used when storing each output format as a session artifact
+const ARTIFACT_EXTENSIONS: Record<OutputFormat, string> = {
+  text: 'txt',
+  srt: 'srt',
+  vtt: 'vtt',
+  json: 'json',
+  markdown: 'md'
+};
+
+/**
+ * Start a new paragraph, prefixed with the speaker's name when known
+ * @param segment - First segment of the paragraph
+ * @returns The new paragraph
+ */
+function startParagraph(segment: TranscriptSegment): FormattedParagraph {
+  return {
+    start: segment.start,
+    speaker: segment.speaker,
+    text: segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text
+  };
+}
+
+/**
+ * Paragraph building in progress, kept between calls when a transcript arrives in pieces
+ */
+export interface ParagraphState {
+  open: FormattedParagraph | null; // paragraph still taking segments
+  lastTime: number; // seconds; end (or start) of the last segment added
+}
+
+/**
+ * Add segments to the paragraph being built, closing paragraphs at speaker changes and long gaps
+ * @param state - Open paragraph and last time, updated in place
+ * @param segments - Segments to add, in order
+ * @param paragraphGap - Seconds gap for paragraph breaks
+ * @param lineGap - Seconds gap for line breaks
+ * @returns Paragraphs closed by these segments, in order
+ */
+export function addSegments(
+  state: ParagraphState,
+  segments: TranscriptSegment[],
+  paragraphGap: number,
+  lineGap: number
+): FormattedParagraph[] {
+  const closed: FormattedParagraph[] = [];
+  
+  for (const segment of segments) {
+    const paragraph = state.open;
     
-    // Parse each line to extract timestamp and text
-    for (const line of lines) {
-      // Extract timestamp using regex
-      const match = line.match(/\[(\d{2}):(\d{2}):(\d{2})\]\s*(.*)/);
+    // First segment or determine spacing based on time gap
+    if (paragraph === null) {
+      state.open = startParagraph(segment);
+    } else {
+      const timeGap = segment.start - state.lastTime;
+      const speakerChanged = segment.speaker !== null && segment.speaker !== paragraph.speaker;
       
-      if (match) {
-        const hours = parseInt(match[1], 10);
-        const minutes = parseInt(match[2], 10);
-        const seconds = parseInt(match[3], 10);
-        const text = match[4].trim();
-        
-        // Convert timestamp to seconds
-        const timeInSeconds = hours * 3600 + minutes * 60 + seconds;
-        
-        // Add to segments
-        segments.push({ time: timeInSeconds, text });
-      } else {
-        // Handle lines without timestamps
-        if (segments.length > 0) {
-          // Append to the previous segment if it exists
-          segments[segments.length - 1].text += ' ' + line.trim();
-        } else {
-          // Create a new segment with time 0 if no previous segment
-          segments.push({ time: 0, text: line.trim() });
-        }
+      // Rule 1: Paragraph break on a change of speaker or for gaps > paragraph_gap seconds
+      if (speakerChanged || timeGap > paragraphGap) {
+        closed.push(paragraph);
+        state.open = startParagraph(segment);
+      }
+      // Rule 2: Line break for gaps > line_gap seconds
+      else if (timeGap > lineGap) {
+        paragraph.text += '\n' + segment.text;
+      }
+      // Rule 3: Otherwise continue the line, with a space unless the text is written without spaces
+      else {
+        paragraph.text = joinText(paragraph.text, segment.text);
       }
     }
     
-    // Process segments to create naturally formatted text
-    let formattedText = '';
-    let lastTime = -1;
+    // Gaps run from the end of a segment when the transcript gives one
+    state.lastTime = segment.end ?? segment.start;
+  }
+  
+  return closed;
+}
+
+/**
+ * How a transcript is read, decided on its first run of segments
+ */
+interface FormatRun {
+  format: string; // name of the input parser
+  timed: boolean;
+  language: string;
+  lexicon: FillerLexicon; // built-in fillers of the language plus the caller's
+  punctuation: PunctuationOptions | null; // null when punctuation is not restored
+}
+
+/**
+ * Format a transcript within an existing session
+ * The input is parsed, cleaned, laid out and written to the output file a chunk at a time, so a
+ * long file is never held whole; its language and whether it needs punctuation are decided on the
+ * first chunk
+ * @param textContent - Transcript text, or its chunks as read from a file
+ * @param options - Formatting settings
+ * @param session - Session receiving the stats and artifacts
+ * @param progress - Progress context of the run
+ * @param workspaceOutput - Whether the formatted text gets a file of its own in the output
+ * workspace; otherwise it is only kept with the session
+ * @returns Promise resolving to the tool result and the formatted text, which a file input
+ * streams back from the output file
+ */
+export async function formatContent(
+  textContent: TextSource,
+  options: FormatOptions,
+  session: ActiveSession,
+  progress: ProgressContext = {},
+  workspaceOutput = false
+): Promise<{ result: FormatResult; text: TextSource }> {
+  const { 
+    paragraph_gap = 8, // default 8 seconds for paragraph breaks
+    line_gap = 4, // default 4 seconds for line breaks
+    input_format = 'auto',
+    timestamp_pattern,
+    output_format = 'text',
+    max_cue_chars = 84, // two 42-character caption lines
+    max_cue_duration = 7, // seconds
+    speaker_map = {},
+    verbatim_level = 'full',
+    language = 'auto',
+    fillers = [],
+    restore_punctuation = 'auto',
+    pause_threshold,
+    glossary_path
+  } = options;
+  const { chunkChars } = getConfig();
+  const writer = createTranscriptWriter(output_format, { maxChars: max_cue_chars, maxDuration: max_cue_duration });
+  
+  // Each part of the output is appended as soon as its chunk is laid out
+  const extension = ARTIFACT_EXTENSIONS[output_format];
+  const outputFile = workspaceOutput
+    ? await FileHandler.resolveOutputPath(`formatted_${session.id}.${extension}`)
+    : await new SessionStore().saveArtifact(session, 'formatted', '', extension);
+  await FileHandler.writeTextFile(outputFile, '');
+  
+  const removed: DisfluencyCounts = { fillers: 0, repetitions: 0, false_starts: 0, discourse_markers: 0 };
+  let segmentCount = 0;
+  let paragraphCount = 0;
+  const state: ParagraphState = { open: null, lastTime: -1 };
+  const punctuationStats: PunctuationStats = { sentences: 0, questions: 0, pauseBreaks: 0, speakerBreaks: 0, lexicalBreaks: 0 };
+  
+  // Raw speech recognition output gets sentence punctuation and capitals before the grammar rules
+  // below. Then fillers, repetitions and false starts are dropped unless a full verbatim transcript
+  // is wanted, and naturally formatted paragraphs are built and written a batch of segments at a time
+  const addSegmentRun = async (run: FormatRun, parsedSegments: TranscriptSegment[]): Promise<void> => {
+    const punctuation = run.punctuation ? restorePunctuation(parsedSegments, run.timed, run.punctuation) : null;
+    if (punctuation) {
+      for (const key of Object.keys(punctuationStats) as Array<keyof PunctuationStats>) {
+        punctuationStats[key] += punctuation.stats[key];
+      }
+    }
     
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      
-      // First segment or determine spacing based on time gap
-      if (i === 0) {
-        formattedText = segment.text;
-      } else {
-        const timeGap = segment.time - lastTime;
-        
-        // Rule 1: Paragraph break for gaps > paragraph_gap seconds
-        if (timeGap > paragraph_gap) {
-          formattedText += '\n\n' + segment.text;
-        }
-        // Rule 2: Line break for gaps > line_gap seconds
-        else if (timeGap > line_gap) {
-          formattedText += '\n' + segment.text;
-        }
-        // Rule 3: Apply natural grammar rules
-        else {
-          // Check if we should add space or join without space
-          const lastChar = formattedText.charAt(formattedText.length - 1);
-          const endsWithSentenceMarker = /[.!?]$/.test(formattedText);
-          const startsWithLowerCase = /^[a-z]/.test(segment.text);
-          
-          if (endsWithSentenceMarker) {
-            // Start a new sentence
-            formattedText += ' ' + segment.text;
-          } else if (lastChar === ',' || lastChar === ';' || lastChar === ':') {
-            // Continue after punctuation
-            formattedText += ' ' + segment.text;
-          } else if (startsWithLowerCase) {
-            // Likely continuing a thought
-            formattedText += ' ' + segment.text;
-          } else {
-            // Otherwise just add space
-            formattedText += ' ' + segment.text;
+    for (const batch of batchSegments(punctuation ? punctuation.segments : parsedSegments, chunkChars)) {
+      const cleaned = cleanSegments(batch, verbatim_level, run.lexicon, removed).segments;
+      const closed = addSegments(state, cleaned, paragraph_gap, line_gap);
+      segmentCount += cleaned.length;
+      paragraphCount += closed.length;
+      await FileHandler.appendTextFile(outputFile, writer.write(cleaned, closed));
+    }
+  };
+  
+  // Parse the transcript into timed segments using the matching input parser
+  let run: FormatRun | null = null;
+  let held: TranscriptSegment[] = [];
+  const chunks = textChunks(textContent, chunkChars, progress);
+  for await (const parsed of parseTranscriptChunks(chunks, input_format, speaker_map, timestamp_pattern)) {
+    if (!run) {
+      const resolvedLanguage = resolveLanguage(language, parsed.segments.map(segment => segment.text).join('\n'));
+      const lexicon = FILLER_LEXICONS[resolvedLanguage];
+      const restore = restore_punctuation === 'always'
+        || (restore_punctuation === 'auto' && needsPunctuation(parsed.segments));
+      run = {
+        format: parsed.format,
+        timed: parsed.timed,
+        language: resolvedLanguage,
+        lexicon: { ...lexicon, fillers: [...lexicon.fillers, ...fillers.map(filler => filler.toLowerCase())] },
+        punctuation: restore
+          ? {
+            pauseThreshold: pause_threshold,
+            properNouns: properNouns(await loadSelectedGlossary(glossary_path)),
+            language: resolvedLanguage
           }
-        }
-      }
-      
-      lastTime = segment.time;
+          : null
+      };
     }
     
-    return { formatted_text: formattedText };
+    // Restored punctuation depends on the rest of the sentence, so the segments after the last
+    // sure break wait for the next chunk
+    const pending = [...held, ...parsed.segments];
+    const cut = run.punctuation ? lastSegmentBreak(pending, run.timed, pause_threshold) : pending.length;
+    held = pending.slice(cut);
+    await addSegmentRun(run, pending.slice(0, cut));
+  }
+  if (!run) {
+    throw new Error('No transcript content to format');
+  }
+  await addSegmentRun(run, held);
+  
+  // Close the last paragraph and finish the document
+  const last = state.open ? [state.open] : [];
+  paragraphCount += last.length;
+  await FileHandler.appendTextFile(outputFile, writer.write([], last) + writer.end());
+  
+  session.artifacts.formatted = outputFile;
+  session.stats = {
+    inputFormat: run.format,
+    language: run.language,
+    segments: segmentCount,
+    paragraphs: paragraphCount,
+    verbatimLevel: verbatim_level,
+    removed,
+    punctuation: run.punctuation ? punctuationStats : null
+  };
+  
+  // Inline text was small enough to arrive whole, so its formatted text comes back whole too
+  const result: FormatResult = typeof textContent === 'string'
+    ? { formatted_text: await FileHandler.readTextFile(outputFile) }
+    : { output_file: outputFile };
+  return {
+    result: verbatim_level === 'full' ? result : { ...result, removed },
+    text: result.formatted_text ?? FileHandler.streamLines(outputFile, chunkChars)
+  };
+}
+
+/**
+ * Transforms timestamped transcripts into naturally formatted text
+ * @param params - Parameters for the formatting process
+ * @param progress - Progress context of the request
+ * @returns Object containing the formatted text, or the path it was written to for an input file
+ */
+export async function formatTranscript(params: FormatTranscriptParams, progress: ProgressContext = {}): Promise<FormatResult> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
+    
+    // Resolve content (either direct text or a file read in chunks as it is formatted)
+    const textContent = await FileHandler.resolveTextSource(input_text, is_file_path, progress);
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('format_transcript', params, async session => {
+      const { result } = await formatContent(textContent, options, session, progress, is_file_path);
+      return result;
+    });
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     throw new Error(`Formatting process failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { getConfig } from '../utils/config.js';
+import { SessionStore } from '../utils/session-store.js';
+import { createPatternParser, parseTranscriptChunks } from '../parsers/index.js';
+import { formatTimecode } from '../parsers/timecode.js';
+import { checkpoint, ProgressContext } from '../utils/progress.js';
+import { serialize } from '../utils/queue.js';
+import { parseQuery, QueryNode, SearchIndex, SearchHit, StoredIndex, IndexedSegment } from '../utils/search.js';
+
+const readdirAsync = promisify(fs.readdir);
+
+/**
+ * Interface for the index_transcripts function parameters
+ * Parsing settings are the same as for format_transcript
+ */
+export interface IndexTranscriptsParams {
+  directory: string;
+  extensions?: string[]; // file extensions to index, '.txt', '.srt' and '.vtt' by default
+  recursive?: boolean;
+  input_format?: string; // 'auto', 'bracket', 'srt', 'vtt' or a registered parser
+  timestamp_pattern?: string; // regular expression with a named start group
+  speaker_map?: Record<string, string>; // source label -> display name
+}
+
+/**
+ * Interface for the search_transcripts function parameters
+ */
+export interface SearchTranscriptsParams {
+  query: string;
+  directory?: string; // indexed directory to search, all of them by default
+  fuzzy?: boolean; // let every word match close spellings
+  limit?: number;
+  context?: number; // segments shown before and after each hit
+  refresh?: boolean; // index changed files before searching, true by default
+}
+
+/**
+ * Settings an index was built with, reused when it is refreshed
+ */
+type IndexOptions = Required<Omit<IndexTranscriptsParams, 'directory' | 'timestamp_pattern'>> & {
+  timestamp_pattern?: string;
+};
+
+/**
+ * An index as stored in the log directory
+ */
+interface LibraryFile extends StoredIndex {
+  directory: string; // real path of the indexed directory
+  options: IndexOptions;
+  updated_at: string;
+}
+
+/**
+ * What refreshing an index changed
+ */
+interface LibraryUpdate {
+  index: SearchIndex;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: Array<{ file: string; error: string }>; // files that could not be read or parsed
+}
+
+/**
+ * A segment matching a search, with where it was said
+ */
+export interface TranscriptHit {
+  file: string;
+  timestamp: string | null; // hh:mm:ss, null for untimed text
+  start_seconds: number | null;
+  speaker: string | null;
+  text: string;
+  context_before: string[];
+  context_after: string[];
+  score: number;
+  matched_terms: string[];
+}
+
+const DEFAULT_EXTENSIONS = ['.txt', '.srt', '.vtt'];
+
+// Hits returned by default
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Directory holding the search indexes
+ * @returns Absolute directory path
+ */
+function indexDirectory(): string {
+  return path.join(getConfig().logDir, 'indexes');
+}
+
+/**
+ * Path of the index of a directory
+ * @param directory - Real path of the indexed directory
+ * @returns Path of its index file
+ */
+function indexPath(directory: string): string {
+  const id = crypto.createHash('sha256').update(directory).digest('hex').slice(0, 16);
+  return path.join(indexDirectory(), `${id}.json`);
+}
+
+/**
+ * Read a stored index
+ * A truncated or corrupt index counts as missing, so it is rebuilt and left out of searches
+ * @param filePath - Index file path
+ * @returns Promise resolving to the index, or null if there is none
+ */
+async function readLibrary(filePath: string): Promise<LibraryFile | null> {
+  let content: string;
+  try {
+    content = await FileHandler.readTextFile(filePath);
+  } catch (error) {
+    return null;
+  }
+  
+  try {
+    const library = JSON.parse(content);
+    return library && typeof library.directory === 'string' ? library : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Render a segment as a line of context
+ * @param segment - Indexed segment
+ * @returns Segment text, after its speaker
+ */
+function contextLine(segment: IndexedSegment): string {
+  return segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+}
+
+/**
+ * Bring the index of a directory up to date, reading only new and changed files
+ * A change of settings rebuilds the index from scratch
+ * @param directory - Real path of the directory
+ * @param options - Settings to index with
+ * @param progress - Progress context of the run
+ * @returns Promise resolving to the index and what changed
+ */
+async function updateLibrary(directory: string, options: IndexOptions, progress: ProgressContext = {}): Promise<LibraryUpdate> {
+  return serialize(`library:${directory}`, async () => {
+    const stored = await readLibrary(indexPath(directory));
+    const reuse = stored !== null && JSON.stringify(stored.options) === JSON.stringify(options);
+    const index = reuse ? SearchIndex.fromStored(stored) : new SearchIndex();
+    const update: LibraryUpdate = { index, added: 0, updated: 0, removed: 0, unchanged: 0, failed: [] };
+    
+    const files = await FileHandler.listInputFiles(directory, options.extensions, options.recursive);
+    for (const [i, { relativePath, size, mtimeMs }] of files.entries()) {
+      await checkpoint(progress, i, files.length);
+      
+      const existing = index.getFile(relativePath);
+      if (existing && existing.mtime === mtimeMs && existing.size === size) {
+        update.unchanged++;
+        continue;
+      }
+      
+      try {
+        // The file is parsed as it is read, so only its segments are held
+        const chunks = await FileHandler.openInputFile(path.join(directory, relativePath));
+        const segments: IndexedSegment[] = [];
+        let format = '';
+        for await (const parsed of parseTranscriptChunks(
+          chunks,
+          options.input_format,
+          options.speaker_map,
+          options.timestamp_pattern
+        )) {
+          format = parsed.format;
+          segments.push(...parsed.segments.map(({ start, speaker, text }) => ({ start: parsed.timed ? start : null, speaker, text })));
+        }
+        index.addFile({ path: relativePath, mtime: mtimeMs, size, format, segments });
+        if (existing) {
+          update.updated++;
+        } else {
+          update.added++;
+        }
+      } catch (error) {
+        index.removeFile(relativePath);
+        update.failed.push({ file: relativePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    await checkpoint(progress, files.length, files.length);
+    
+    // Files that are gone, or no longer match the settings, leave the index
+    const listed = new Set(files.map(file => file.relativePath));
+    for (const file of index.listFiles()) {
+      if (!listed.has(file)) {
+        index.removeFile(file);
+        update.removed++;
+      }
+    }
+    
+    if (!reuse || update.added + update.updated + update.removed + update.failed.length > 0) {
+      const library: LibraryFile = {
+        directory,
+        options,
+        updated_at: new Date().toISOString(),
+        ...index.toStored()
+      };
+      await FileHandler.writeTextFile(indexPath(directory), JSON.stringify(library));
+    }
+    
+    return update;
+  });
+}
+
+/**
+ * Builds or refreshes the search index of a directory of transcripts
+ * @param params - Directory to index and how to read its transcripts
+ * @param progress - Progress context of the request
+ * @returns Object containing the number of files indexed, added, updated and removed
+ */
+export async function indexTranscripts(
+  params: IndexTranscriptsParams,
+  progress: ProgressContext = {}
+): Promise<{
+  session_id: string;
+  directory: string;
+  files: number;
+  terms: number;
+} & Omit<LibraryUpdate, 'index'>> {
+  try {
+    const {
+      directory,
+      extensions = DEFAULT_EXTENSIONS,
+      recursive = true,
+      input_format = 'auto',
+      timestamp_pattern,
+      speaker_map = {}
+    } = params;
+    
+    const realDirectory = await FileHandler.resolveInputDirectory(directory);
+    if (timestamp_pattern) {
+      // Fail before any file is read if the pattern is unusable
+      createPatternParser(timestamp_pattern);
+    }
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('index_transcripts', params, async session => {
+      const options: IndexOptions = { extensions, recursive, input_format, timestamp_pattern, speaker_map };
+      const { index, ...changes } = await updateLibrary(realDirectory, options, progress);
+      const files = index.listFiles().length;
+      
+      session.stats = {
+        files,
+        added: changes.added,
+        updated: changes.updated,
+        removed: changes.removed,
+        failed: changes.failed.length,
+        terms: index.termCount
+      };
+      return { session_id: session.id, directory: realDirectory, files, terms: index.termCount, ...changes };
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Indexing failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Searches indexed transcripts for words, phrases and boolean combinations of them
+ * @param params - Query and search settings
+ * @param progress - Progress context of the request, for refreshing the indexes
+ * @returns Object containing the best hits with their file, time, speaker and context
+ */
+export async function searchTranscripts(
+  params: SearchTranscriptsParams,
+  progress: ProgressContext = {}
+): Promise<{ query: string; total: number; hits: TranscriptHit[] }> {
+  try {
+    const { query, directory, fuzzy = false, limit = DEFAULT_LIMIT, context = 1, refresh = true } = params;
+    
+    let parsed: QueryNode;
+    try {
+      parsed = parseQuery(query);
+    } catch (error) {
+      throw new Error(`Invalid query: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    // The indexes to search, which must still lie inside the sandbox
+    let libraries: LibraryFile[];
+    if (directory !== undefined) {
+      const library = await readLibrary(indexPath(await FileHandler.resolveInputDirectory(directory)));
+      if (!library) {
+        throw new Error(`Directory ${directory} is not indexed; run index_transcripts first`);
+      }
+      libraries = [library];
+    } else {
+      const names = await readdirAsync(indexDirectory()).catch(() => [] as string[]);
+      libraries = [];
+      for (const name of names.filter(name => name.endsWith('.json'))) {
+        const library = await readLibrary(path.join(indexDirectory(), name));
+        if (library && await FileHandler.resolveInputDirectory(library.directory).then(() => true, () => false)) {
+          libraries.push(library);
+        }
+      }
+      if (libraries.length === 0) {
+        throw new Error('No transcripts are indexed yet; run index_transcripts first');
+      }
+    }
+    
+    const found: Array<{ library: LibraryFile; index: SearchIndex; hit: SearchHit }> = [];
+    for (const library of libraries) {
+      const index = refresh
+        ? (await updateLibrary(library.directory, library.options, progress)).index
+        : SearchIndex.fromStored(library);
+      found.push(...index.search(parsed, fuzzy).map(hit => ({ library, index, hit })));
+    }
+    found.sort((a, b) => b.hit.score - a.hit.score);
+    
+    const hits = found.slice(0, limit).map(({ library, index, hit }) => {
+      const segments = index.getFile(hit.file)?.segments ?? [];
+      const segment = segments[hit.segment];
+      return {
+        file: path.join(library.directory, hit.file),
+        timestamp: segment.start !== null ? formatTimecode(segment.start) : null,
+        start_seconds: segment.start,
+        speaker: segment.speaker,
+        text: segment.text,
+        context_before: segments.slice(Math.max(0, hit.segment - context), hit.segment).map(contextLine),
+        context_after: segments.slice(hit.segment + 1, hit.segment + 1 + context).map(contextLine),
+        score: Math.round(hit.score * 100) / 100,
+        matched_terms: hit.terms
+      };
+    });
+    
+    return { query, total: found.length, hits };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Search failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,214 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { formatContent, FormatOptions } from './formatting.js';
+import { repairContent, RepairOptions } from './repair.js';
+import { summarizeContent, SummaryOptions } from './summary.js';
+import { checkpoint, withinRange, ProgressContext } from '../utils/progress.js';
+import { readText, TextSource } from '../utils/chunks.js';
+import { getConfig } from '../utils/config.js';
+
+export type PipelineStageName = 'format' | 'repair' | 'summarize';
+
+/**
+ * A single step of a pipeline and the settings for its tool
+ */
+export interface PipelineStage {
+  stage: PipelineStageName;
+  params?: FormatOptions | RepairOptions | SummaryOptions;
+}
+
+/**
+ * Interface for the process_transcript function parameters
+ */
+export interface ProcessTranscriptParams {
+  input_text: string;
+  is_file_path?: boolean;
+  stages?: PipelineStage[]; // run in order; defaults to format, repair, summarize
+}
+
+/**
+ * Output, timing and statistics of one pipeline stage
+ */
+export interface StageResult {
+  stage: PipelineStageName;
+  duration_ms: number;
+  stats: Record<string, unknown>;
+  output: object;
+}
+
+/**
+ * What one stage hands on: its tool output, its text and the artifact holding that text
+ */
+interface StageOutput {
+  output: object;
+  text: TextSource;
+  artifact?: string;
+}
+
+export const PIPELINE_STAGES: PipelineStageName[] = ['format', 'repair', 'summarize'];
+
+/**
+ * Check the requested stages before any work starts
+ * @param stages - Stages supplied by the caller
+ * @throws McpError if the list is empty or a stage is unknown or malformed
+ */
+export function validateStages(stages: PipelineStage[]): void {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'stages must be a non-empty array');
+  }
+  
+  stages.forEach((entry, i) => {
+    if (!entry || !PIPELINE_STAGES.includes(entry.stage)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `stages[${i}]: stage must be one of ${PIPELINE_STAGES.join(', ')}`
+      );
+    }
+    if (entry.params !== undefined && (typeof entry.params !== 'object' || entry.params === null)) {
+      throw new McpError(ErrorCode.InvalidParams, `stages[${i}]: params must be an object`);
+    }
+  });
+}
+
+/**
+ * Run one stage on the text produced by the previous one
+ * @param entry - Stage to run
+ * @param text - Input text for the stage, or its chunks as read from a file
+ * @param source - Original filename, or 'direct_input'
+ * @param session - Stage view of the pipeline session
+ * @param progress - Progress context of the stage
+ * @param workspaceOutput - Whether a repair stage writes its own file to the output workspace
+ * @returns Promise resolving to the stage's tool output, the text passed to the next stage and
+ * the artifact holding that text, which a repair dry run does not write
+ */
+export async function runStage(
+  entry: PipelineStage,
+  text: TextSource,
+  source: string,
+  session: ActiveSession,
+  progress: ProgressContext,
+  workspaceOutput = true
+): Promise<StageOutput> {
+  const params = entry.params || {};
+  
+  switch (entry.stage) {
+    case 'format': {
+      const { result, text: formatted } = await formatContent(text, params as FormatOptions, session, progress);
+      return { output: result, text: formatted, artifact: session.artifacts.formatted };
+    }
+    case 'repair': {
+      const { result, text: repaired } = await repairContent(
+        text,
+        source,
+        params as RepairOptions,
+        session,
+        progress,
+        workspaceOutput
+      );
+      return { output: result, text: repaired, artifact: session.artifacts.repaired };
+    }
+    case 'summarize': {
+      // A summary needs the whole text at once, so it is held to the inline text limit
+      const result = await summarizeContent(await readText(text, getConfig().maxTextBytes), params as SummaryOptions, session);
+      await checkpoint(progress, 1, 1);
+      return { output: result, text: result.summary, artifact: session.artifacts.summary };
+    }
+  }
+}
+
+/**
+ * Run stages in order within an existing session
+ * @param textContent - Input text of the first stage, or its chunks as read from a file
+ * @param source - Original filename, or 'direct_input'
+ * @param stages - Validated stages to run
+ * @param session - Session receiving the stats and artifacts of every stage
+ * @param progress - Progress context of the stages, which share it equally
+ * @param workspaceOutput - Whether repair stages write their own files to the output workspace
+ * @returns Promise resolving to the result of each stage and the output of the last one
+ */
+export async function runPipeline(
+  textContent: TextSource,
+  source: string,
+  stages: PipelineStage[],
+  session: ActiveSession,
+  progress: ProgressContext = {},
+  workspaceOutput = true
+): Promise<{ stages: StageResult[]; text: TextSource; artifact?: string }> {
+  const results: StageResult[] = [];
+  let text = textContent;
+  let artifact: string | undefined;
+  
+  for (const [i, entry] of stages.entries()) {
+    // Each stage gets its own stats and artifacts, merged into the session afterwards
+    const stageSession: ActiveSession = { id: session.id, stats: {}, files: [], artifacts: {} };
+    const started = Date.now();
+    
+    let stageOutput: StageOutput;
+    try {
+      const stageProgress = withinRange(progress, (100 * i) / stages.length, (100 * (i + 1)) / stages.length);
+      stageOutput = await runStage(entry, text, source, stageSession, stageProgress, workspaceOutput);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new Error(`Stage ${i + 1} (${entry.stage}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    results.push({
+      stage: entry.stage,
+      duration_ms: Date.now() - started,
+      stats: stageSession.stats,
+      output: stageOutput.output
+    });
+    text = stageOutput.text;
+    artifact = stageOutput.artifact;
+    
+    // A repeated artifact name (such as the repair and summary logs) is suffixed with its stage number
+    for (const [name, filePath] of Object.entries(stageSession.artifacts)) {
+      session.artifacts[name in session.artifacts ? `${name}_${i + 1}` : name] = filePath;
+    }
+    session.files.push(...stageSession.files);
+    session.stats = {
+      stages: results.map(({ stage, duration_ms, stats }) => ({ stage, duration_ms, ...stats }))
+    };
+  }
+  
+  return { stages: results, text, artifact };
+}
+
+/**
+ * Runs formatting, repair and summarization stages in order within one session
+ * Each stage receives the text produced by the one before it
+ * @param params - Parameters for the pipeline
+ * @param progress - Progress context of the request
+ * @returns Object containing the session ID and the output, timing and stats of each stage
+ */
+export async function processTranscript(
+  params: ProcessTranscriptParams,
+  progress: ProgressContext = {}
+): Promise<{ session_id: string; stages: StageResult[] }> {
+  try {
+    const {
+      input_text,
+      is_file_path = false,
+      stages = PIPELINE_STAGES.map(stage => ({ stage }))
+    } = params;
+    validateStages(stages);
+    
+    // Resolve content (either direct text or from file)
+    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path, withinRange(progress, 0, 10));
+    const source = is_file_path ? input_text : 'direct_input';
+    
+    // Record the run in the session registry; stages share the progress left after reading the input
+    return await new SessionStore().track('process_transcript', params, async session => {
+      const { stages: results } = await runPipeline(textContent, source, stages, session, withinRange(progress, 10, 100));
+      return { session_id: session.id, stages: results };
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Pipeline failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,89 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { parseTranscript } from '../parsers/index.js';
+import { formatTimecode } from '../parsers/timecode.js';
+import { restorePunctuation } from '../utils/punctuation.js';
+import { loadSelectedGlossary, properNouns } from '../utils/glossary.js';
+
+/**
+ * Interface for the restore_punctuation function parameters
+ */
+export interface RestorePunctuationParams {
+  input_text: string;
+  is_file_path?: boolean;
+  input_format?: string; // 'auto', 'bracket', 'srt', 'vtt' or a registered parser
+  pause_threshold?: number; // seconds of silence that end a sentence
+  glossary_path?: string; // proper nouns to capitalize
+  speaker_map?: Record<string, string>; // source label -> display name
+}
+
+/**
+ * Restoration settings, without the input they apply to
+ */
+export type PunctuationToolOptions = Omit<RestorePunctuationParams, 'input_text' | 'is_file_path'>;
+
+/**
+ * Restore punctuation within an existing session
+ * Timed transcripts keep one `[hh:mm:ss] Speaker: text` line per segment so that other tools can
+ * still read them; untimed text keeps one line per segment without the timestamp
+ * @param textContent - Transcript text
+ * @param options - Restoration settings
+ * @param session - Session receiving the stats and artifacts
+ * @returns Promise resolving to the punctuated transcript
+ */
+export async function punctuateContent(
+  textContent: string,
+  options: PunctuationToolOptions,
+  session: ActiveSession
+): Promise<{ restored_text: string }> {
+  const {
+    input_format = 'auto',
+    pause_threshold,
+    glossary_path,
+    speaker_map = {}
+  } = options;
+  
+  const { format, segments, timed } = parseTranscript(textContent, input_format, speaker_map);
+  const { segments: restored, stats } = restorePunctuation(segments, timed, {
+    pauseThreshold: pause_threshold,
+    properNouns: properNouns(await loadSelectedGlossary(glossary_path))
+  });
+  
+  const restoredText = restored
+    .map(segment => {
+      const time = timed ? `[${formatTimecode(segment.start)}] ` : '';
+      const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+      return `${time}${speaker}${segment.text}`;
+    })
+    .join('\n');
+  
+  await new SessionStore().saveArtifact(session, 'punctuated', restoredText);
+  session.stats = { inputFormat: format, segments: segments.length, ...stats };
+  
+  return { restored_text: restoredText };
+}
+
+/**
+ * Restores sentence punctuation and capitalization in raw speech recognition output
+ * @param params - Parameters for the restoration
+ * @returns Object containing the punctuated transcript
+ */
+export async function restorePunctuationText(params: RestorePunctuationParams): Promise<{ restored_text: string }> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
+    
+    // Resolve content (either direct text or from file)
+    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('restore_punctuation', params, session =>
+      punctuateContent(textContent, options, session)
+    );
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Punctuation restoration failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { Logger } from '../utils/logger.js';
+import { getConfig } from '../utils/config.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { extractSpeakerLabel } from '../parsers/index.js';
+import { parseCueTiming, parseLeadingTimestamp } from '../parsers/timecode.js';
+import { namePattern, redactLine, restorePlaceholders, PiiType, PII_TYPES, RedactionMap } from '../utils/redaction.js';
+
+/**
+ * Interface for the redact_text function parameters
+ */
+export interface RedactTextParams {
+  input_text: string;
+  is_file_path?: boolean;
+  entity_types?: PiiType[]; // kinds of data to redact, all by default
+  names?: string[]; // people to redact as [PERSON_n]
+}
+
+/**
+ * Redaction settings, without the input they apply to
+ */
+export type RedactOptions = Omit<RedactTextParams, 'input_text' | 'is_file_path'>;
+
+/**
+ * Interface for the restore_redactions function parameters
+ */
+export interface RestoreRedactionsParams {
+  session_id: string;
+  restore_key: string;
+  text?: string; // text carrying the session's placeholders, the redacted transcript by default
+  is_file_path?: boolean;
+}
+
+/**
+ * Result of redact_text
+ */
+export interface RedactTextResult {
+  session_id: string;
+  redacted_text: string;
+  redactions: Partial<Record<PiiType, number>>; // occurrences replaced, by kind
+  placeholders: number; // distinct values replaced
+}
+
+/**
+ * Split a line into its timestamp, its speaker label and the spoken text
+ * @param line - Line of transcript text
+ * @returns The timestamp, which is kept, the speaker label and the text to redact
+ */
+function splitLine(line: string): [string, string, string] {
+  if (parseCueTiming(line)) {
+    return [line, '', ''];
+  }
+  
+  let labelStart = 0;
+  const timestamp = parseLeadingTimestamp(line);
+  if (timestamp) {
+    labelStart = timestamp.text === '' ? line.length : line.lastIndexOf(timestamp.text);
+  }
+  
+  const rest = line.slice(labelStart);
+  const label = extractSpeakerLabel(rest);
+  const bodyStart = label ? labelStart + (label.text === '' ? rest.length : rest.lastIndexOf(label.text)) : labelStart;
+  
+  return [line.slice(0, labelStart), line.slice(labelStart, bodyStart), line.slice(bodyStart)];
+}
+
+/**
+ * Check the key of a restore request against the configured one
+ * @param key - Key supplied by the caller
+ */
+function checkRestoreKey(key: string): void {
+  const expected = getConfig().redactionKey;
+  if (expected === '') {
+    throw new Error('Restoring redactions is disabled; set TRANSCRIPTION_TOOLS_REDACTION_KEY to enable it');
+  }
+  
+  // Compare digests so the comparison takes the same time whatever the key's length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(key), digest(expected))) {
+    throw new Error('Invalid restore key');
+  }
+}
+
+/**
+ * Redact text within an existing session
+ * @param textContent - Transcript text
+ * @param options - Redaction settings
+ * @param session - Session receiving the stats and artifacts
+ * @returns Promise resolving to the redacted text and what was replaced
+ */
+export async function redactContent(
+  textContent: string,
+  options: RedactOptions,
+  session: ActiveSession
+): Promise<RedactTextResult> {
+  const { entity_types = PII_TYPES, names = [] } = options;
+  
+  const unknown = entity_types.filter(type => !PII_TYPES.includes(type));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown entity type(s): ${unknown.join(', ')}; available: ${PII_TYPES.join(', ')}`);
+  }
+  
+  // One map for the whole transcript keeps each value on the same placeholder
+  const map: RedactionMap = { placeholders: {}, keys: {}, occurrences: [] };
+  const pattern = namePattern(names);
+  const redactions: Partial<Record<PiiType, number>> = {};
+  
+  // Line breaks are kept as they are, at the odd positions of the split
+  const redactedText = textContent
+    .split(/(\r?\n)/)
+    .map((part, i) => {
+      if (i % 2 === 1) {
+        return part;
+      }
+      // A speaker label keeps its place, but a listed name in it is redacted as in the text
+      const [timestamp, label, body] = splitLine(part);
+      const speaker = redactLine(label, entity_types.filter(type => type === 'person'), pattern, map);
+      const { text, found } = redactLine(body, entity_types, pattern, map);
+      for (const type of [...speaker.found, ...found]) {
+        redactions[type] = (redactions[type] || 0) + 1;
+      }
+      return timestamp + speaker.text + text;
+    })
+    .join('');
+  
+  await new SessionStore().saveArtifact(session, 'redacted', redactedText);
+  session.files.push(await new Logger(session.id).logRedactionMap(map));
+  
+  const placeholders = Object.keys(map.placeholders).length;
+  session.stats = { ...redactions, placeholders };
+  
+  return { session_id: session.id, redacted_text: redactedText, redactions, placeholders };
+}
+
+/**
+ * Replaces personal data in a transcript with placeholders, keeping timestamps and speaker labels
+ * @param params - Parameters for the redaction
+ * @returns Object containing the redacted text and the number of values replaced
+ */
+export async function redactText(params: RedactTextParams): Promise<RedactTextResult> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
+    
+    // Resolve content (either direct text or from file)
+    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
+    
+    // The session record must not keep the data being removed
+    const recorded = {
+      ...params,
+      input_text: is_file_path ? input_text : `${input_text.length} characters`,
+      names: options.names?.length ?? 0
+    };
+    
+    // Record the run in the session registry
+    return await new SessionStore().track('redact_text', recorded, session =>
+      redactContent(textContent, options, session)
+    );
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Redaction failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Puts the original values of a redaction back in place of its placeholders
+ * @param params - Redaction session, restore key and optionally text derived from the redacted transcript
+ * @returns Object containing the restored text and the number of placeholders replaced
+ */
+export async function restoreRedactions(
+  params: RestoreRedactionsParams
+): Promise<{ session_id: string; restored_text: string; restored: number }> {
+  try {
+    const { session_id, restore_key, text, is_file_path = false } = params;
+    checkRestoreKey(restore_key);
+    if (!SessionStore.isValidId(session_id)) {
+      throw new Error(`Invalid session ID: ${session_id}`);
+    }
+    
+    const record = await new SessionStore().get(session_id);
+    if (record.tool !== 'redact_text' || !record.artifacts.redacted) {
+      throw new Error(`Session ${session_id} is not a completed redaction`);
+    }
+    
+    const map = await new Logger(session_id).readRedactionMap<RedactionMap>();
+    const redacted = text !== undefined
+      ? await FileHandler.resolveTextContent(text, is_file_path)
+      : await FileHandler.readTextFile(record.artifacts.redacted);
+    
+    const { text: restoredText, restored } = restorePlaceholders(redacted, map, text === undefined);
+    return { session_id, restored_text: restoredText, restored };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Restore failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
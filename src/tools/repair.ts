@@ -1,5 +1,18 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
 import { FileHandler } from '../utils/file-handler.js';
-import { Logger } from '../utils/logger.js';
+import { Logger, RepairCorrection, ParsedRepairLog } from '../utils/logger.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { buildVocabulary, generateCandidates, ContextModel, Vocabulary } from '../utils/candidates.js';
+import {
+  applyCasePattern,
+  expandReplacement,
+  loadSelectedGlossary,
+  RepairRule
+} from '../utils/glossary.js';
+import { textChunks, TextSource } from '../utils/chunks.js';
+import { getConfig } from '../utils/config.js';
+import { ProgressContext } from '../utils/progress.js';
+import { resolveLanguage } from '../utils/languages.js';
 
 /**
  * Interface for the repair_text function parameters
@@ -7,6 +20,43 @@ import { Logger } from '../utils/logger.js';
 export interface RepairTextParams {
   input_text: string;
   is_file_path?: boolean;
+  glossary_path?: string; // JSON or YAML glossary merged with the built-in rules
+  known_terms?: string[]; // domain terms and names added to the vocabulary
+  confidence_threshold?: number; // percentage required to apply a correction
+  dry_run?: boolean; // propose corrections for review instead of applying them
+  language?: string; // 'auto' or a language code, choosing the built-in rules and word list
+}
+
+/**
+ * Repair settings, without the input they apply to
+ */
+export type RepairOptions = Omit<RepairTextParams, 'input_text' | 'is_file_path'>;
+
+/**
+ * Result of repair_text: the repaired file, or the proposals of a dry run
+ */
+export type RepairTextResult =
+  | { output_file: string; session_id: string }
+  | { session_id: string; proposals: RepairProposal[]; diff: string };
+
+/**
+ * Interface for the apply_repairs function parameters
+ */
+export interface ApplyRepairsParams {
+  session_id: string;
+  accepted_ids?: string[]; // proposals to apply even if below the threshold
+  rejected_ids?: string[]; // proposals to skip even if above the threshold
+}
+
+/**
+ * A proposed correction with its position in the original text
+ */
+export interface RepairProposal extends RepairCorrection {
+  id: string;
+  start: number; // character offset in the original text
+  end: number; // character offset just past the original word(s)
+  accepted: boolean; // whether the proposal met the confidence threshold and needs no review
+  needs_review?: boolean; // an unknown-word fix too close to another candidate to apply unasked
 }
 
 /**
@@ -16,132 +66,556 @@ export interface GetRepairLogParams {
   session_id: string;
 }
 
+// Built-in corrections for common misspellings, by language
+const BUILT_IN_RULES: Record<string, RepairRule[]> = Object.fromEntries(
+  Object.entries({
+    en: [
+      { pattern: /\brecieve/gi, replacement: 'receive', confidence: 95 },
+      { pattern: /\bdefiantly\b/gi, replacement: 'definitely', confidence: 93 },
+      { pattern: /\birregardless\b/gi, replacement: 'regardless', confidence: 91 },
+      { pattern: /\balot\b/gi, replacement: 'a lot', confidence: 97 },
+      { pattern: /\bseperat/gi, replacement: 'separat', confidence: 94 }
+    ],
+    es: [
+      { pattern: /(?<!\p{L})nesecari/giu, replacement: 'necesari', confidence: 94 },
+      { pattern: /(?<!\p{L})exelente/giu, replacement: 'excelente', confidence: 95 },
+      { pattern: /(?<!\p{L})haiga(?!\p{L})/giu, replacement: 'haya', confidence: 92 },
+      { pattern: /(?<!\p{L})enserio(?!\p{L})/giu, replacement: 'en serio', confidence: 91 }
+    ],
+    fr: [
+      { pattern: /(?<!\p{L})parmis(?!\p{L})/giu, replacement: 'parmi', confidence: 95 },
+      { pattern: /(?<!\p{L})malgrés(?!\p{L})/giu, replacement: 'malgré', confidence: 95 },
+      { pattern: /(?<!\p{L})apeller/giu, replacement: 'appeler', confidence: 93 },
+      { pattern: /(?<!\p{L})dévelop(?!p)/giu, replacement: 'développ', confidence: 92 }
+    ],
+    de: [
+      { pattern: /(?<!\p{L})standart(?!\p{L})/giu, replacement: 'Standard', confidence: 93 },
+      { pattern: /(?<!\p{L})addresse/giu, replacement: 'Adresse', confidence: 95 },
+      { pattern: /(?<!\p{L})rythmus(?!\p{L})/giu, replacement: 'Rhythmus', confidence: 94 },
+      { pattern: /(?<!\p{L})seperat/giu, replacement: 'separat', confidence: 94 }
+    ],
+    ja: [],
+    zh: []
+  }).map(([language, rules]) => [language, rules.map(rule => ({
+    ...rule,
+    preserveCase: true,
+    source: 'built-in',
+    // Word boundaries and lookarounds are left out of the description
+    description: `Common misspelling "${rule.pattern.source.replace(/\(\?<?[!=][^)]*\)|\\b/g, '')}"`
+  }))])
+);
+
+// Only English has a word list to check unknown words against
+const VOCABULARY_LANGUAGES = ['en'];
+
 /**
- * Analyzes and repairs transcription errors with high confidence
- * @param params - Parameters for the repair process
- * @returns Object containing the path to the repaired text file
+ * Collect the rules for a repair run: glossary rules first, then the built-in rules
+ * @param glossaryPath - Glossary supplied by the caller, if any
+ * @param language - Language code of the text
+ * @returns Promise resolving to the ordered rules
  */
-export async function repairText(params: RepairTextParams): Promise<{ output_file: string }> {
-  try {
-    const { input_text, is_file_path = false } = params;
-    
-    // Resolve content (either direct text or from file)
-    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
-    
-    // Create a session ID and logger
-    const logger = new Logger();
-    const sessionId = logger.getSessionId();
-    
-    // This would be a more complex NLP processing in a real implementation
-    // Here we just simulate the repair process with some example corrections
-    
-    // Split text into words for processing
-    const words = textContent.split(/\s+/);
-    const totalWords = words.length;
-    
-    // Simulate finding and correcting errors
-    const corrections: Array<{
-      original: string;
-      corrected: string;
-      confidence: number;
-      context: string;
-      evidence: string[];
-    }> = [];
-    
-    // In a real implementation, this would use NLP models to identify errors
-    // Here we're just simulating with some basic replacements
-    const commonErrors = [
-      { pattern: /recieve/gi, replacement: 'receive', confidence: 95 },
-      { pattern: /defiantly/gi, replacement: 'definitely', confidence: 93 },
-      { pattern: /irregardless/gi, replacement: 'regardless', confidence: 91 },
-      { pattern: /alot/gi, replacement: 'a lot', confidence: 97 },
-      { pattern: /seperate/gi, replacement: 'separate', confidence: 94 }
-    ];
-    
-    // Process the text
-    let repairedText = textContent;
-    let totalConfidence = 0;
-    
-    for (const error of commonErrors) {
-      if (error.pattern.test(repairedText)) {
-        // Find all instances of this error
-        const matches = repairedText.match(error.pattern) || [];
-        
-        for (const match of matches) {
-          // Get some context around the error (simulated)
-          const contextIndex = repairedText.indexOf(match);
-          const start = Math.max(0, contextIndex - 20);
-          const end = Math.min(repairedText.length, contextIndex + match.length + 20);
-          const context = repairedText.substring(start, end);
-          
-          corrections.push({
-            original: match,
-            corrected: match.replace(error.pattern, error.replacement),
-            confidence: error.confidence,
-            context,
-            evidence: [
-              'Pattern recognition',
-              'Dictionary verification',
-              'Semantic analysis'
-            ]
-          });
-          
-          totalConfidence += error.confidence;
-        }
-        
-        // Apply the correction to the full text
-        repairedText = repairedText.replace(error.pattern, error.replacement);
+async function resolveRules(glossaryPath: string | undefined, language: string): Promise<RepairRule[]> {
+  const glossaryRules = await loadSelectedGlossary(glossaryPath);
+  
+  return [...glossaryRules, ...BUILT_IN_RULES[language]];
+}
+
+// Candidates below this confidence are not worth logging as suggestions
+const SUGGESTION_FLOOR = 50;
+
+// Words checked against the vocabulary
+const WORD_PATTERN = /\p{L}+(?:['’]\p{L}+)*/gu;
+
+/**
+ * Count the words of a text for the repair statistics
+ * @param text - Text or chunk of text
+ * @returns Number of whitespace-separated words
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word !== '').length;
+}
+
+/**
+ * Get a window of text around a match for the repair log
+ * @param text - Full text
+ * @param index - Start of the match
+ * @param length - Length of the match
+ * @returns Up to 20 characters either side of the match
+ */
+function contextAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 20);
+  const end = Math.min(text.length, index + length + 20);
+  return text.substring(start, end);
+}
+
+/**
+ * Check whether a span overlaps any span already claimed by a proposal
+ * @param proposals - Proposals found so far
+ * @param start - Start of the new span
+ * @param end - End of the new span
+ * @returns True if the spans overlap
+ */
+function overlapsExisting(proposals: Array<{ start: number; end: number }>, start: number, end: number): boolean {
+  return proposals.some(p => start < p.end && end > p.start);
+}
+
+/**
+ * Match glossary and built-in rules against the text
+ * Earlier rules win where matches overlap, so glossary rules take precedence
+ * @param text - Original text
+ * @param rules - Ordered repair rules
+ * @returns Unnumbered proposals in rule order
+ */
+function proposeRuleRepairs(text: string, rules: RepairRule[]): Array<Omit<RepairProposal, 'id' | 'accepted'>> {
+  const proposals: Array<Omit<RepairProposal, 'id' | 'accepted'>> = [];
+  
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const index = match.index ?? 0;
+      const end = index + match[0].length;
+      const expanded = expandReplacement(rule.replacement, match);
+      const corrected = rule.preserveCase ? applyCasePattern(match[0], expanded) : expanded;
+      
+      if (corrected === match[0] || overlapsExisting(proposals, index, end)) {
+        continue;
       }
+      
+      proposals.push({
+        start: index,
+        end,
+        original: match[0],
+        corrected,
+        confidence: rule.confidence,
+        context: contextAround(text, index, match[0].length),
+        evidence: [
+          rule.source === 'built-in' ? 'Built-in rule' : `Glossary: ${rule.source}`,
+          rule.description,
+          rule.preserveCase ? 'Case preserved from original' : 'Canonical spelling applied'
+        ]
+      });
     }
+  }
+  
+  return proposals;
+}
+
+/**
+ * Flag out-of-vocabulary words and propose the best candidate for each
+ * Words already covered by a rule proposal are skipped
+ * @param text - Original text
+ * @param vocabulary - Word list plus caller-supplied terms
+ * @param claimed - Spans already claimed by rule proposals
+ * @param context - Word and word pair counts of the whole document
+ * @returns Unnumbered proposals in text order
+ */
+function proposeCandidateRepairs(
+  text: string,
+  vocabulary: Vocabulary,
+  claimed: Array<{ start: number; end: number }>,
+  context: ContextModel
+): Array<Omit<RepairProposal, 'id' | 'accepted'>> {
+  const tokens = Array.from(text.matchAll(WORD_PATTERN));
+  const lowerTokens = tokens.map(token => token[0].toLowerCase());
+  
+  const proposals: Array<Omit<RepairProposal, 'id' | 'accepted'>> = [];
+  
+  tokens.forEach((token, i) => {
+    const word = token[0];
+    const lower = lowerTokens[i];
+    const index = token.index ?? 0;
     
-    // Calculate statistics
-    const correctionsMade = corrections.length;
-    const averageConfidence = correctionsMade > 0 
-      ? Math.round(totalConfidence / correctionsMade) 
-      : 0;
+    // Known words, short words, acronyms and contractions are left alone
+    if (lower.length < 3 || vocabulary.has(lower) || /['’]/.test(lower) || word === word.toUpperCase()) {
+      return;
+    }
+    if (overlapsExisting(claimed, index, index + word.length)) {
+      return;
+    }
+    
+    // Words glued to digits are codes or identifiers, not misrecognitions
+    const before = text.charAt(index - 1);
+    const after = text.charAt(index + word.length);
+    if (/\d/.test(before) || /\d/.test(after)) {
+      return;
+    }
+    
+    const candidates = generateCandidates(
+      lower,
+      vocabulary,
+      context,
+      i > 0 ? lowerTokens[i - 1] : null,
+      i < lowerTokens.length - 1 ? lowerTokens[i + 1] : null
+    );
+    const best = candidates[0];
+    if (!best || best.confidence < SUGGESTION_FLOOR) {
+      return;
+    }
+    
+    // A capital mid-sentence usually marks a proper noun; only known terms may replace one
+    const sentenceStart = /(^|[.!?]\s+|\n\s*)$/.test(text.substring(Math.max(0, index - 3), index)) || index === 0;
+    const knownTerm = vocabulary.isKnownTerm(best.word);
+    if (!sentenceStart && word[0] !== word[0].toLowerCase() && !knownTerm) {
+      return;
+    }
+    
+    proposals.push({
+      start: index,
+      end: index + word.length,
+      original: word,
+      corrected: knownTerm ? best.word : applyCasePattern(word, best.word),
+      confidence: best.confidence,
+      context: contextAround(text, index, word.length),
+      evidence: ['Out-of-vocabulary word', ...best.evidence],
+      needs_review: !best.decisive
+    });
+  });
+  
+  return proposals;
+}
+
+/**
+ * Find the proposed corrections in one chunk of a text
+ * A long text is scanned in chunks of whole lines, so a rule pattern spanning a line break
+ * can miss a match that falls across two chunks
+ * @param chunk - Chunk of the original text
+ * @param rules - Ordered glossary and built-in rules
+ * @param vocabulary - Word list plus caller-supplied terms, or null to skip unknown-word checks
+ * @param context - Word and word pair counts of the document so far, or null without a vocabulary
+ * @returns Unnumbered proposals above the suggestion floor, in text order and positioned against the chunk
+ */
+function proposeChunkRepairs(
+  chunk: string,
+  rules: RepairRule[],
+  vocabulary: Vocabulary | null,
+  context: ContextModel | null
+): Array<Omit<RepairProposal, 'id' | 'accepted'>> {
+  const ruleProposals = proposeRuleRepairs(chunk, rules);
+  const candidateProposals = vocabulary && context
+    ? proposeCandidateRepairs(chunk, vocabulary, ruleProposals, context)
+    : [];
+  
+  return [...ruleProposals, ...candidateProposals]
+    .filter(p => p.confidence >= SUGGESTION_FLOOR)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Apply the accepted proposals to the original text
+ * @param text - Original text
+ * @param proposals - Proposals in text order
+ * @returns The repaired text
+ */
+function applyProposals(text: string, proposals: RepairProposal[]): string {
+  let repaired = '';
+  let lastIndex = 0;
+  
+  for (const proposal of proposals) {
+    if (proposal.accepted) {
+      repaired += text.substring(lastIndex, proposal.start) + proposal.corrected;
+      lastIndex = proposal.end;
+    }
+  }
+  
+  return repaired + text.substring(lastIndex);
+}
+
+/**
+ * Render a word-level diff of the proposals, marking removed words as [-old-] and added words as {+new+}
+ * Only lines containing a proposal are included
+ * @param text - Original text
+ * @param proposals - Proposals in text order
+ * @returns Diff text
+ */
+function renderWordDiff(text: string, proposals: RepairProposal[]): string {
+  let marked = '';
+  let lastIndex = 0;
+  
+  for (const proposal of proposals) {
+    marked += text.substring(lastIndex, proposal.start);
+    marked += `[-${proposal.original}-]{+${proposal.corrected}+}`;
+    lastIndex = proposal.end;
+  }
+  marked += text.substring(lastIndex);
+  
+  return marked
+    .split('\n')
+    .filter(line => line.includes('[-'))
+    .join('\n');
+}
+
+/**
+ * Log a set of decided proposals and compute the repair statistics
+ * @param logger - Logger for the session
+ * @param source - Original filename, or 'direct_input'
+ * @param totalWords - Number of words in the original text
+ * @param proposals - Proposals with their final accepted state
+ * @returns Promise resolving to the log file path and the repair statistics
+ */
+async function logRepairResult(
+  logger: Logger,
+  source: string,
+  totalWords: number,
+  proposals: RepairProposal[]
+): Promise<{ logPath: string; stats: Record<string, number> }> {
+  // Corrections that are applied, and the rest which are only logged
+  const corrections = proposals.filter(p => p.accepted);
+  const suggestions = proposals.filter(p => !p.accepted);
+  
+  // Calculate statistics
+  const correctionsMade = corrections.length;
+  const totalConfidence = corrections.reduce((sum, c) => sum + c.confidence, 0);
+  const averageConfidence = correctionsMade > 0 
+    ? Math.round(totalConfidence / correctionsMade) 
+    : 0;
+  
+  // Log the repair process
+  const stats = {
+    totalWords,
+    correctionsMade,
+    averageConfidence
+  };
+  
+  const logPath = await logger.logRepairProcess(source, corrections, stats, suggestions);
+  
+  return { logPath, stats: { ...stats, suggestionsLogged: suggestions.length } };
+}
+
+/**
+ * Write the repaired text and its log for a set of decided proposals
+ * @param logger - Logger for the session
+ * @param source - Original filename, or 'direct_input'
+ * @param text - Original text
+ * @param proposals - Proposals with their final accepted state
+ * @returns Promise resolving to the output and log file paths and the repair statistics
+ */
+async function writeRepairResult(
+  logger: Logger,
+  source: string,
+  text: string,
+  proposals: RepairProposal[]
+): Promise<{ outputFile: string; logPath: string; stats: Record<string, number> }> {
+  // Write the repaired text to a per-session file in the output workspace so runs never overwrite each other
+  const outputFile = await FileHandler.resolveOutputPath(`repaired_${logger.getSessionId()}.txt`);
+  await FileHandler.writeTextFile(outputFile, applyProposals(text, proposals));
+  
+  const { logPath, stats } = await logRepairResult(logger, source, countWords(text), proposals);
+  return { outputFile, logPath, stats };
+}
+
+/**
+ * Repair text within an existing session
+ * The text is scanned and repaired a chunk at a time, appending to the output file as it goes;
+ * its language is decided on the first chunk. A dry run keeps the whole text for the review
+ * @param textContent - Text to repair, or its chunks as read from a file
+ * @param source - Original filename, or 'direct_input'
+ * @param options - Repair settings
+ * @param session - Session receiving the stats and artifacts
+ * @param progress - Progress context of the run
+ * @param workspaceOutput - Whether the repaired text gets a file of its own in the output
+ * workspace; otherwise it is only kept with the session, for callers that write their own output
+ * @returns Promise resolving to the tool result and the repaired text (unchanged for a dry run),
+ * which a real run streams back from its output file
+ */
+export async function repairContent(
+  textContent: TextSource,
+  source: string,
+  options: RepairOptions,
+  session: ActiveSession,
+  progress: ProgressContext = {},
+  workspaceOutput = true
+): Promise<{ result: RepairTextResult; text: TextSource }> {
+  const {
+    glossary_path,
+    known_terms = [],
+    confidence_threshold = 90,
+    dry_run = false,
+    language = 'auto'
+  } = options;
+  
+  const logger = new Logger(session.id);
+  const store = new SessionStore();
+  const { chunkChars } = getConfig();
+  
+  // Write the repaired text to a per-session file in the output workspace so runs never overwrite
+  // each other, and keep the input alongside it so compare_transcripts can score the repair
+  let outputFile: string | null = null;
+  if (!dry_run) {
+    outputFile = workspaceOutput
+      ? await FileHandler.resolveOutputPath(`repaired_${session.id}.txt`)
+      : await store.saveArtifact(session, 'repaired', '');
+    await FileHandler.writeTextFile(outputFile, '');
+    await store.saveArtifact(session, 'original', '');
+  }
+  
+  const proposals: RepairProposal[] = [];
+  const original: string[] = [];
+  let offset = 0;
+  let totalWords = 0;
+  let setup: { language: string; rules: RepairRule[]; vocabulary: Vocabulary | null; context: ContextModel | null } | null = null;
+  
+  for await (const chunk of textChunks(textContent, chunkChars, progress)) {
+    // Glossary rules take precedence over the built-in misspellings, then the
+    // remaining out-of-vocabulary words are scored against the word list and known terms
+    if (!setup) {
+      const resolvedLanguage = resolveLanguage(language, chunk);
+      const vocabulary = VOCABULARY_LANGUAGES.includes(resolvedLanguage) ? buildVocabulary(known_terms) : null;
+      setup = {
+        language: resolvedLanguage,
+        rules: await resolveRules(glossary_path, resolvedLanguage),
+        vocabulary,
+        context: vocabulary ? new ContextModel([], vocabulary) : null
+      };
+    }
     
-    // Write the repaired text to a file
-    const outputFile = 'repaired.txt';
-    await FileHandler.writeTextFile(outputFile, repairedText);
+    // Word context counts the document read so far, this chunk included
+    setup.context?.add(Array.from(chunk.matchAll(WORD_PATTERN), token => token[0].toLowerCase()));
+    const found = proposeChunkRepairs(chunk, setup.rules, setup.vocabulary, setup.context).map((proposal, i) => ({
+      id: `c${String(proposals.length + i + 1).padStart(4, '0')}`,
+      ...proposal,
+      accepted: proposal.confidence >= confidence_threshold && !proposal.needs_review
+    }));
     
-    // Log the repair process
-    const stats = {
-      totalWords,
-      correctionsMade,
-      averageConfidence
+    if (outputFile) {
+      await FileHandler.appendTextFile(outputFile, applyProposals(chunk, found));
+      await store.appendArtifact(session, 'original', chunk);
+    } else {
+      original.push(chunk);
+    }
+    proposals.push(...found.map(proposal => ({ ...proposal, start: proposal.start + offset, end: proposal.end + offset })));
+    offset += chunk.length;
+    totalWords += countWords(chunk);
+  }
+  const resolvedLanguage = setup ? setup.language : resolveLanguage(language, '');
+  
+  if (!outputFile) {
+    // Keep the proposals so apply_repairs can finish the session later
+    const text = original.join('');
+    session.artifacts.proposals = await logger.logRepairProposals(source, text, proposals);
+    session.stats = {
+      language: resolvedLanguage,
+      proposals: proposals.length,
+      aboveThreshold: proposals.filter(p => p.accepted).length
     };
+    return {
+      result: { session_id: session.id, proposals, diff: renderWordDiff(text, proposals) },
+      text
+    };
+  }
+  
+  const { logPath, stats } = await logRepairResult(logger, source, totalWords, proposals);
+  session.artifacts.repaired = outputFile;
+  session.artifacts.log = logPath;
+  session.stats = { language: resolvedLanguage, ...stats };
+  
+  return {
+    result: { output_file: outputFile, session_id: session.id },
+    text: FileHandler.streamLines(outputFile, chunkChars)
+  };
+}
+
+/**
+ * Analyzes and repairs transcription errors with high confidence
+ * @param params - Parameters for the repair process
+ * @param progress - Progress context of the request
+ * @returns Object containing the path to the repaired text file, or the proposals for a dry run
+ */
+export async function repairText(params: RepairTextParams, progress: ProgressContext = {}): Promise<RepairTextResult> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
     
-    const logPath = await logger.logRepairProcess(
-      is_file_path ? input_text : 'direct_input',
-      corrections,
-      stats
-    );
+    // Resolve content (either direct text or a file read in chunks as it is repaired)
+    const textContent = await FileHandler.resolveTextSource(input_text, is_file_path, progress);
+    const source = is_file_path ? input_text : 'direct_input';
     
-    return { output_file: outputFile };
+    // Record the run in the session registry
+    return await new SessionStore().track('repair_text', params, async session => {
+      const { result } = await repairContent(textContent, source, options, session, progress);
+      return result;
+    });
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     throw new Error(`Repair process failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Applies reviewed proposals from a dry-run repair session
+ * @param params - Parameters containing the session ID and review decisions
+ * @returns Object containing the path to the repaired text file and counts of applied and skipped proposals
+ */
+export async function applyRepairs(
+  params: ApplyRepairsParams
+): Promise<{ output_file: string; session_id: string; applied: number; skipped: number }> {
+  try {
+    const { session_id, accepted_ids = [], rejected_ids = [] } = params;
+    if (!SessionStore.isValidId(session_id)) {
+      throw new Error(`Invalid session ID: ${session_id}`);
+    }
+    
+    const logger = new Logger(session_id);
+    const session = await logger.readRepairProposals<RepairProposal>();
+    
+    // Every reviewed ID must belong to this session
+    const knownIds = new Set(session.proposals.map(p => p.id));
+    const unknownIds = [...accepted_ids, ...rejected_ids].filter(id => !knownIds.has(id));
+    if (unknownIds.length > 0) {
+      throw new Error(`Unknown correction ID(s) for session ${session_id}: ${unknownIds.join(', ')}`);
+    }
+    
+    const conflicting = accepted_ids.filter(id => rejected_ids.includes(id));
+    if (conflicting.length > 0) {
+      throw new Error(`Correction ID(s) both accepted and rejected: ${conflicting.join(', ')}`);
+    }
+    
+    // Review decisions override the threshold-based defaults
+    const proposals = session.proposals.map(p => ({
+      ...p,
+      accepted: accepted_ids.includes(p.id) || (p.accepted && !rejected_ids.includes(p.id))
+    }));
+    
+    const result = await writeRepairResult(logger, session.source, session.text, proposals);
+    const applied = proposals.filter(p => p.accepted).length;
+    const outcome = { output_file: result.outputFile, session_id, applied, skipped: proposals.length - applied };
+    
+    // The review completes the dry-run session it belongs to
+    await new SessionStore().update(session_id, {
+      status: 'completed',
+      outputs: outcome,
+      stats: result.stats,
+      artifacts: { repaired: result.outputFile, log: result.logPath }
+    });
+    
+    return outcome;
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Failed to apply repairs: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Retrieves detailed analysis log from previous repair operation
  * @param params - Parameters containing the session ID
- * @returns Object containing the log file path
+ * @returns Object containing the log file path and the parsed corrections
  */
-export async function getRepairLog(params: GetRepairLogParams): Promise<{ log_file: string }> {
+export async function getRepairLog(params: GetRepairLogParams): Promise<{ log_file: string } & ParsedRepairLog> {
   try {
     const { session_id } = params;
-    const logPath = `/logs/repairs/${session_id}.log`;
-    
-    // Check if the log file exists
-    try {
-      await FileHandler.readTextFile(logPath);
-    } catch (error) {
-      throw new Error(`Repair log not found for session ${session_id}`);
+    if (!SessionStore.isValidId(session_id)) {
+      throw new Error(`Invalid session ID: ${session_id}`);
     }
     
-    return { log_file: logPath };
+    const logger = new Logger(session_id);
+    const log = await logger.readRepairLog();
+    
+    return { log_file: logger.getRepairLogPath(), ...log };
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     throw new Error(`Failed to retrieve repair log: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -0,0 +1,29 @@
+import { SessionStore, SessionRecord } from '../utils/session-store.js';
+
+/**
+ * Interface for the list_sessions function parameters
+ */
+export interface ListSessionsParams {
+  tool?: string;
+  status?: 'running' | 'completed' | 'failed';
+  since?: string; // ISO date or date-time
+  until?: string; // ISO date or date-time
+  limit?: number;
+}
+
+/**
+ * Lists recorded tool sessions, newest first
+ * @param params - Optional filters by tool, status and creation date
+ * @returns Object containing the matching session records
+ */
+export async function listSessions(params: ListSessionsParams): Promise<{ sessions: SessionRecord[]; total: number }> {
+  try {
+    const { tool, status, since, until, limit = 50 } = params;
+    
+    const sessions = await new SessionStore().list({ tool, status, since, until });
+    
+    return { sessions: sessions.slice(0, limit), total: sessions.length };
+  } catch (error) {
+    throw new Error(`Failed to list sessions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,283 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FileHandler } from '../utils/file-handler.js';
+import { SessionStore, SessionRecord, ActiveSession } from '../utils/session-store.js';
+import { createPatternParser, extractSpeakerLabel, parseTranscript, selectParser, TranscriptSegment } from '../parsers/index.js';
+import { addSegments, ParagraphState } from './formatting.js';
+import { serialize } from '../utils/queue.js';
+
+/**
+ * Interface for the append_transcript function parameters
+ * The formatting settings are only read when a stream is opened
+ */
+export interface AppendTranscriptParams {
+  stream_id?: string; // omit to open a new stream
+  lines: string; // newly received timestamped lines
+  paragraph_gap?: number; // seconds
+  line_gap?: number; // seconds
+  timestamp_pattern?: string; // regular expression with a named start group
+  speaker_map?: Record<string, string>; // source label -> display name
+}
+
+/**
+ * Interface for the finalize_transcript function parameters
+ */
+export interface FinalizeTranscriptParams {
+  stream_id: string;
+}
+
+/**
+ * Formatting state of a live transcript, stored with its session between calls
+ * Returned paragraphs are not kept here but appended to the stream's paragraphs artifact, so
+ * each call writes only what it adds
+ */
+interface StreamState {
+  options: {
+    paragraph_gap: number;
+    line_gap: number;
+    timestamp_pattern?: string;
+    speaker_map: Record<string, string>;
+  };
+  pending: TranscriptSegment | null; // last segment, which later untimed lines may still continue
+  paragraphs: ParagraphState;
+  finalized: number; // paragraphs already returned
+  appends: number;
+  segments: number;
+}
+
+// Tool name recorded for stream sessions
+const STREAM_TOOL = 'transcript_stream';
+
+/**
+ * Open a stream's session record as an active session
+ * @param record - Session record of the stream
+ * @returns Session that further artifacts can be saved to
+ */
+function activeSession(record: SessionRecord): ActiveSession {
+  return { id: record.id, stats: record.stats, files: record.files, artifacts: { ...record.artifacts } };
+}
+
+/**
+ * Load a running stream and its formatting state
+ * @param store - Session store
+ * @param streamId - Stream ID
+ * @returns Promise resolving to the stream's record and state
+ */
+async function loadStream(store: SessionStore, streamId: string): Promise<{ record: SessionRecord; state: StreamState }> {
+  if (!SessionStore.isValidId(streamId)) {
+    throw new Error(`Invalid stream ID: ${streamId}`);
+  }
+  
+  const record = await store.get(streamId);
+  if (record.tool !== STREAM_TOOL || !record.artifacts.stream) {
+    throw new Error(`Session ${streamId} is not a transcript stream`);
+  }
+  if (record.status !== 'running') {
+    throw new Error(`Stream ${streamId} is already finalized`);
+  }
+  
+  const state: StreamState = JSON.parse(await FileHandler.readTextFile(record.artifacts.stream));
+  return { record, state };
+}
+
+/**
+ * Parse newly received lines, continuing the stream's pending segment
+ * @param state - Stream state; its pending segment is replaced
+ * @param lines - New transcript lines
+ * @returns Segments that can no longer change, in order
+ */
+function takeSegments(state: StreamState, lines: string): TranscriptSegment[] {
+  const { timestamp_pattern, speaker_map } = state.options;
+  const parser = timestamp_pattern ? createPatternParser(timestamp_pattern) : selectParser('', 'bracket');
+  const rows = lines.split(/\r?\n/);
+  
+  // Untimed lines at the start continue the segment left open by the last call
+  let first = 0;
+  while (first < rows.length && !parser.detect(rows[first]) && !extractSpeakerLabel(rows[first])) {
+    if (state.pending && rows[first].trim() !== '') {
+      state.pending.text += ' ' + rows[first].trim();
+    }
+    first++;
+  }
+  if (!state.pending) {
+    first = 0;
+  }
+  
+  const rest = rows.slice(first).join('\n');
+  const { segments } = rest.trim() === ''
+    ? { segments: [] }
+    : parseTranscript(rest, parser.name, speaker_map, timestamp_pattern, true);
+  
+  // A speaker change without a timestamp starts at the time already reached
+  if (segments.length > 0 && state.pending && !parser.detect(rows[first])) {
+    segments[0].start = state.pending.start;
+  }
+  
+  // Unlabelled lines belong to whoever was speaking at the end of the last call
+  const previousSpeaker = state.pending ? state.pending.speaker : null;
+  for (const segment of segments) {
+    if (segment.speaker !== null) {
+      break;
+    }
+    segment.speaker = previousSpeaker;
+  }
+  
+  const all = [...(state.pending ? [state.pending] : []), ...segments];
+  state.pending = all.length > 0 ? all[all.length - 1] : null;
+  state.segments += segments.length;
+  return all.slice(0, -1);
+}
+
+/**
+ * Save a stream's state and progress, appending the paragraphs it has just returned
+ * @param store - Session store
+ * @param record - Session record of the stream
+ * @param state - Stream state
+ * @param closed - Paragraphs finalized since the state was last saved
+ * @returns Promise resolving to the stream's session once the state is stored
+ */
+async function saveStream(
+  store: SessionStore,
+  record: SessionRecord,
+  state: StreamState,
+  closed: string[]
+): Promise<ActiveSession> {
+  const session = activeSession(record);
+  
+  // One JSON string per line, since a paragraph spans several lines
+  await store.appendArtifact(session, 'paragraphs', closed.map(text => JSON.stringify(text) + '\n').join(''), 'jsonl');
+  state.finalized += closed.length;
+  await store.saveArtifact(session, 'stream', JSON.stringify(state), 'json');
+  await store.update(record.id, {
+    artifacts: session.artifacts,
+    stats: { appends: state.appends, segments: state.segments, paragraphs: state.finalized }
+  });
+  return session;
+}
+
+/**
+ * Read every paragraph a stream has returned
+ * @param filePath - Path of the stream's paragraphs artifact
+ * @returns Promise resolving to the paragraphs, in order
+ */
+async function readParagraphs(filePath: string): Promise<string[]> {
+  const content = await FileHandler.readTextFile(filePath);
+  return content.split('\n').filter(line => line !== '').map(line => JSON.parse(line) as string);
+}
+
+/**
+ * Add lines to a live transcript, opening a new stream when no stream ID is given
+ * Paragraphs are only returned once a later segment closes them, so earlier output never changes
+ * @param params - New lines, and the formatting settings when opening a stream
+ * @returns Object containing the stream ID and the newly finalized formatted text
+ */
+export async function appendTranscript(
+  params: AppendTranscriptParams
+): Promise<{ stream_id: string; text: string; finalized_paragraphs: number }> {
+  try {
+    const { stream_id, lines, ...options } = params;
+    const store = new SessionStore();
+    
+    if (stream_id === undefined) {
+      const { paragraph_gap = 8, line_gap = 4, timestamp_pattern, speaker_map = {} } = options;
+      if (timestamp_pattern) {
+        // Fail before the stream is opened if the pattern is unusable
+        createPatternParser(timestamp_pattern);
+      }
+      
+      const record = await store.create(STREAM_TOOL, options);
+      const state: StreamState = {
+        options: { paragraph_gap, line_gap, timestamp_pattern, speaker_map },
+        pending: null,
+        paragraphs: { open: null, lastTime: -1 },
+        finalized: 0,
+        appends: 0,
+        segments: 0
+      };
+      return await serialize(record.id, () => appendToStream(store, record, state, lines));
+    }
+    
+    return await serialize(stream_id, async () => {
+      const { record, state } = await loadStream(store, stream_id);
+      return appendToStream(store, record, state, lines);
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Append failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Format new lines into a stream and store its updated state
+ * @param store - Session store
+ * @param record - Session record of the stream
+ * @param state - Stream state
+ * @param lines - New transcript lines
+ * @returns Promise resolving to the stream ID and the newly finalized text
+ */
+async function appendToStream(
+  store: SessionStore,
+  record: SessionRecord,
+  state: StreamState,
+  lines: string
+): Promise<{ stream_id: string; text: string; finalized_paragraphs: number }> {
+  const { paragraph_gap, line_gap } = state.options;
+  const closed = addSegments(state.paragraphs, takeSegments(state, lines), paragraph_gap, line_gap);
+  
+  state.appends++;
+  await saveStream(store, record, state, closed.map(paragraph => paragraph.text));
+  
+  return {
+    stream_id: record.id,
+    text: closed.map(paragraph => paragraph.text).join('\n\n'),
+    finalized_paragraphs: closed.length
+  };
+}
+
+/**
+ * Flush and close a live transcript
+ * @param params - Stream to close
+ * @returns Object containing the text flushed by this call and the whole formatted transcript
+ */
+export async function finalizeTranscript(
+  params: FinalizeTranscriptParams
+): Promise<{ stream_id: string; text: string; formatted_text: string; paragraphs: number }> {
+  try {
+    const { stream_id } = params;
+    const store = new SessionStore();
+    
+    return await serialize(stream_id, async () => {
+      const { record, state } = await loadStream(store, stream_id);
+      const { paragraph_gap, line_gap } = state.options;
+      
+      // Everything still open is final now
+      const closed = addSegments(state.paragraphs, state.pending ? [state.pending] : [], paragraph_gap, line_gap);
+      if (state.paragraphs.open) {
+        closed.push(state.paragraphs.open);
+      }
+      state.pending = null;
+      state.paragraphs.open = null;
+      
+      const texts = closed.map(paragraph => paragraph.text);
+      const session = await saveStream(store, record, state, texts);
+      const formattedText = (await readParagraphs(session.artifacts.paragraphs)).join('\n\n');
+      await store.saveArtifact(session, 'formatted', formattedText);
+      await store.update(stream_id, { artifacts: session.artifacts });
+      
+      const result = {
+        stream_id,
+        text: texts.join('\n\n'),
+        formatted_text: formattedText,
+        paragraphs: state.finalized
+      };
+      await store.complete(stream_id, SessionStore.describe(result));
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new Error(`Finalize failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
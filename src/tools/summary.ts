@@ -1,5 +1,25 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { FileHandler } from '../utils/file-handler.js';
 import { Logger } from '../utils/logger.js';
+import { SessionStore, ActiveSession } from '../utils/session-store.js';
+import { parseTranscript, TranscriptSegment } from '../parsers/index.js';
+import { formatTimecode } from '../parsers/timecode.js';
+import {
+  rankSentences,
+  selectByMmr,
+  splitSentences,
+  contentTerms,
+  measure,
+  topTerms,
+  RankingMethod,
+  SentenceGraph
+} from '../utils/extractive.js';
+import { extractKeyPhrases, toTitleCase, KeyPhrase } from '../utils/key-phrases.js';
+import { detectActionItems, ActionItem } from '../utils/action-items.js';
+import { segmentTopics } from '../utils/topics.js';
+import { needsPunctuation, restorePunctuation } from '../utils/punctuation.js';
+import { segmentSentences, TimedSentence } from '../utils/sentences.js';
+import { countWords, joinText, resolveLanguage, LANGUAGES } from '../utils/languages.js';
 
 /**
  * Interface for the summary_text function parameters
@@ -9,159 +29,556 @@ export interface SummaryTextParams {
   is_file_path?: boolean;
   constraint_type?: 'time' | 'chars' | 'words' | null;
   constraint_value?: number | null;
+  mode?: 'overall' | 'per_speaker';
+  speaker_map?: Record<string, string>; // source label -> display name
+  ranking?: RankingMethod; // sentence centrality, 'textrank' by default
+  style?: SummaryStyle; // layout of the summary, 'paragraph' by default
+  citations?: CitationMode; // link summary sentences back to their source time
+  language?: string; // 'auto' or a language code
 }
 
+export type SummaryStyle = 'paragraph' | 'bullets' | 'outline' | 'keywords' | 'action_items';
+
+export const SUMMARY_STYLES: SummaryStyle[] = ['paragraph', 'bullets', 'outline', 'keywords', 'action_items'];
+
 /**
- * Generate intelligent summaries of processed transcripts using ACE cognitive methodology
- * @param params - Parameters for the summary process
- * @returns Object containing the summary text
+ * How summary sentences are linked to the transcript: not at all, with a `(00:12:40)` start time
+ * after each sentence, or by returning the sentences as a JSON list with their time ranges
  */
-export async function summaryText(params: SummaryTextParams): Promise<{ summary: string }> {
-  try {
-    const { 
-      input_text, 
-      is_file_path = false, 
-      constraint_type = null,
-      constraint_value = null
-    } = params;
-    
-    // Resolve content (either direct text or from file)
-    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
-    
-    // Create a session ID and logger
-    const logger = new Logger();
-    const sessionId = logger.getSessionId();
-    
-    // In a real implementation, this would be a sophisticated NLP pipeline
-    // using deep learning models for summarization. Here we'll simulate the process.
-    
-    // ACE-Driven Processing
-    // Step 1: Priming Stage
-    const contentLength = textContent.length;
-    const wordCount = textContent.split(/\s+/).length;
-    
-    // Determine target length based on constraint
-    let targetLength: number;
-    if (constraint_type === 'time') {
-      // Base rate: 150 words/minute
-      const baseRate = 150;
-      targetLength = constraint_value ? constraint_value * baseRate / 60 : wordCount * 0.3;
-    } else if (constraint_type === 'chars') {
-      targetLength = constraint_value ? constraint_value : contentLength * 0.3;
-    } else if (constraint_type === 'words') {
-      targetLength = constraint_value ? constraint_value : wordCount * 0.3;
-    } else {
-      // Default constraint: 30% of original
-      targetLength = wordCount * 0.3;
+export type CitationMode = 'none' | 'inline' | 'json';
+
+export const CITATION_MODES: CitationMode[] = ['none', 'inline', 'json'];
+
+/**
+ * A summary sentence with where it was said
+ */
+export interface CitedSentence {
+  sentence: string;
+  start: number | null; // seconds
+  end: number | null;
+  speaker: string | null;
+}
+
+/**
+ * Summary settings, without the input they apply to
+ */
+export type SummaryOptions = Omit<SummaryTextParams, 'input_text' | 'is_file_path'>;
+
+/**
+ * Summary and talk-time share for a single participant
+ */
+export interface SpeakerSummary {
+  speaker: string;
+  summary: string;
+  word_count: number;
+  talk_time_seconds: number;
+  talk_time_share: number; // percentage of total talk time
+}
+
+/**
+ * Result of summary_text
+ */
+export interface SummaryResult {
+  summary: string;
+  speakers?: SpeakerSummary[]; // per_speaker mode
+  keywords?: KeyPhrase[]; // keywords style
+  action_items?: ActionItem[]; // action_items style
+  citations?: CitedSentence[]; // unless citations is 'none'
+}
+
+/**
+ * A summary in one style, with what went into it
+ */
+interface StyledSummary {
+  summary: string;
+  achieved: number; // length in the target metric
+  selected: number; // sentences or phrases chosen
+  redundant: number; // sentences skipped as near-duplicates
+  steps: number; // selection rounds run
+  cited: TimedSentence[]; // sentences used, in order
+}
+
+// Number of key phrases listed when no length constraint is given
+const DEFAULT_KEYWORD_COUNT = 10;
+
+/**
+ * Quote a summary sentence, adding its start time when citing inline
+ * @param sentence - Source sentence
+ * @param citations - Citation mode
+ * @returns The sentence text as it appears in the summary
+ */
+function quote(sentence: TimedSentence, citations: CitationMode): string {
+  return citations === 'inline' && sentence.start !== null
+    ? `${sentence.text} (${formatTimecode(sentence.start)})`
+    : sentence.text;
+}
+
+/**
+ * Estimate how long each segment was spoken for
+ * Uses the segment's end time, else the next segment's start, else the word count
+ * @param segments - Parsed transcript segments
+ * @param language - Language code, giving the speaking rate
+ * @returns Duration in seconds for each segment
+ */
+function segmentDurations(segments: TranscriptSegment[], language: string): number[] {
+  return segments.map((segment, i) => {
+    const next = segments[i + 1];
+    const end = segment.end ?? (next ? next.start : null);
+    if (end !== null && end > segment.start) {
+      return end - segment.start;
     }
+    return countWords(segment.text) * 60 / LANGUAGES[language].speakingRate;
+  });
+}
+
+/**
+ * Group transcript sentences by speaker and summarize each participant's contribution
+ * @param segments - Parsed transcript segments, used for talk time
+ * @param spoken - Sentences of the transcript with their speakers
+ * @param targetLength - Overall length budget, shared out by word count
+ * @param targetMetric - Whether the budget is counted in characters or words
+ * @param ranking - Sentence centrality method
+ * @param style - Whether each speaker's summary is a paragraph or a bullet list
+ * @param citations - Citation mode
+ * @param language - Language code of the transcript
+ * @returns Per-speaker summaries with the total length achieved and the combined selection details
+ */
+function summarizeBySpeaker(
+  segments: TranscriptSegment[],
+  spoken: TimedSentence[],
+  targetLength: number,
+  targetMetric: 'chars' | 'words',
+  ranking: RankingMethod,
+  style: 'paragraph' | 'bullets',
+  citations: CitationMode,
+  language: string
+): StyledSummary & { speakers: SpeakerSummary[] } {
+  const durations = segmentDurations(segments, language);
+  
+  // Collect each speaker's sentences and talk time in order of first appearance
+  const groups = new Map<string, { sentences: TimedSentence[]; seconds: number }>();
+  segments.forEach((segment, i) => {
+    const speaker = segment.speaker ?? 'Unknown';
+    const group = groups.get(speaker) ?? { sentences: [], seconds: 0 };
+    group.seconds += durations[i];
+    groups.set(speaker, group);
+  });
+  for (const sentence of spoken) {
+    groups.get(sentence.speaker ?? 'Unknown')?.sentences.push(sentence);
+  }
+  
+  const totalSeconds = durations.reduce((sum, d) => sum + d, 0);
+  const totalWords = spoken.reduce((sum, s) => sum + measure(s.text, 'words'), 0);
+  
+  const speakers: SpeakerSummary[] = [];
+  const cited: TimedSentence[] = [];
+  let achieved = 0;
+  let selected = 0;
+  let redundant = 0;
+  let steps = 0;
+  
+  for (const [speaker, group] of groups) {
+    const wordCount = group.sentences.reduce((sum, s) => sum + measure(s.text, 'words'), 0);
     
-    // Simulate domain context identification
-    const primingFactors = [
-      'Document length analysis',
-      'Content type recognition',
-      'Terminological evaluation',
-      'Priority patterns identified'
-    ];
-    
-    // Step 2: Comprehension Stage
-    const paragraphs = textContent.split(/\n\n+/);
+    // Each speaker gets a share of the budget matching their share of the words
+    const share = totalWords > 0 ? wordCount / totalWords : 0;
+    const graph = rankSentences(group.sentences.map(s => s.text), ranking, language);
+    const selection = selectByMmr(graph, targetLength * share, targetMetric);
     
-    // Simulate comprehension metrics
-    const comprehensionMetrics = {
-      coreThemeCount: Math.min(5, paragraphs.length),
-      relationshipNodes: paragraphs.length * 2,
-      causalChains: Math.floor(paragraphs.length / 2),
-      hierarchyLevels: 3
-    };
+    // Speakers who never say anything of substance are summarized by their own words
+    const picked = selection.selected.length > 0
+      ? selection.selected.map(i => group.sentences[i])
+      : group.sentences;
+    const quoted = picked.map(sentence => quote(sentence, citations));
+    const summary = style === 'bullets' ? quoted.map(s => `- ${s}`).join('\n') : quoted.reduce(joinText, '');
     
-    // Step 3: Context Clarification Stage
-    const sentences = textContent.match(/[^.!?]+[.!?]+/g) || [];
+    cited.push(...picked);
+    achieved += selection.achieved;
+    selected += selection.selected.length;
+    redundant += selection.redundant;
+    steps += selection.steps;
     
-    // Map importance scores to sentences (simulated)
-    const sentenceScores = sentences.map((sentence, index) => {
-      // In a real implementation, this would use NLP models to score importance
-      // Here we'll use position and length as proxies for importance
-      const positionScore = 1 - (index / sentences.length); // Early sentences get higher scores
-      const lengthScore = Math.min(1, sentence.length / 100); // Longer sentences (up to a point) get higher scores
-      return { sentence, score: (positionScore * 0.7) + (lengthScore * 0.3) };
+    speakers.push({
+      speaker,
+      summary,
+      word_count: wordCount,
+      talk_time_seconds: Math.round(group.seconds),
+      talk_time_share: totalSeconds > 0 ? Math.round(group.seconds / totalSeconds * 1000) / 10 : 0
     });
-    
-    // Sort by importance score
-    sentenceScores.sort((a, b) => b.score - a.score);
-    
-    // Simulated context maps 
-    const contextMaps = {
-      semanticUnits: sentences.length,
-      densityEvaluation: 'Completed',
-      dependencyGraph: 'Generated',
-      narrativeThreads: 'Mapped'
-    };
-    
-    // Step 4: Expanding Stage
-    // Select top sentences based on constraint
-    let selectedSentences: string[] = [];
-    let currentLength = 0;
-    const targetMetric = constraint_type === 'chars' ? 'chars' : 'words';
-    
-    // Keep adding sentences until we hit the target length
-    for (const item of sentenceScores) {
-      const sentenceLength = targetMetric === 'chars' 
-        ? item.sentence.length 
-        : item.sentence.split(/\s+/).length;
-        
-      if (currentLength + sentenceLength <= targetLength) {
-        selectedSentences.push(item.sentence);
-        currentLength += sentenceLength;
-      } else if (selectedSentences.length === 0) {
-        // Always include at least one sentence
-        selectedSentences.push(item.sentence);
-        break;
-      } else {
+  }
+  
+  return {
+    summary: speakers
+      .map(s => `${s.speaker} (${s.talk_time_share}% of talk time):\n${s.summary}`)
+      .join('\n\n'),
+    speakers,
+    achieved,
+    selected,
+    redundant,
+    steps,
+    cited
+  };
+}
+
+/**
+ * Lay out selected sentences as a paragraph, a bullet list or an outline
+ * An outline groups the bullets under one heading per topic section, named by its top key phrase
+ * @param style - Paragraph, bullets or outline
+ * @param spoken - All sentences of the text
+ * @param selected - Indexes of the selected sentences, in original order
+ * @param citations - Citation mode
+ * @param language - Language code of the transcript
+ * @returns The rendered summary
+ */
+function renderSentences(
+  style: SummaryStyle,
+  spoken: TimedSentence[],
+  selected: number[],
+  citations: CitationMode,
+  language: string
+): string {
+  if (style === 'bullets') {
+    return selected.map(i => `- ${quote(spoken[i], citations)}`).join('\n');
+  }
+  
+  if (style === 'outline') {
+    const sentences = spoken.map(s => s.text);
+    return segmentTopics(sentences, { language })
+      .map((section, n) => {
+        const picked = selected.filter(i => i >= section.start && i < section.end);
+        if (picked.length === 0) {
+          return null;
+        }
+        const [topPhrase] = extractKeyPhrases(sentences.slice(section.start, section.end).join(' '), 1, language);
+        const heading = topPhrase ? toTitleCase(topPhrase.phrase) : `Section ${n + 1}`;
+        return `## ${heading}\n` + picked.map(i => `- ${quote(spoken[i], citations)}`).join('\n');
+      })
+      .filter((section): section is string => section !== null)
+      .join('\n\n');
+  }
+  
+  return selected.map(i => quote(spoken[i], citations)).reduce(joinText, '');
+}
+
+/**
+ * Summarize with central sentences from the document graph, skipping near-duplicates
+ * @param graph - Ranked sentence graph of the text
+ * @param spoken - The sentences of the graph with their times and speakers
+ * @param style - Paragraph, bullets or outline
+ * @param targetLength - Length budget in the target metric
+ * @param targetMetric - Whether the budget is counted in characters or words
+ * @param citations - Citation mode
+ * @param language - Language code of the transcript
+ * @returns The styled summary
+ */
+function summarizeSentences(
+  graph: SentenceGraph,
+  spoken: TimedSentence[],
+  style: SummaryStyle,
+  targetLength: number,
+  targetMetric: 'chars' | 'words',
+  citations: CitationMode,
+  language: string
+): StyledSummary {
+  const selection = selectByMmr(graph, targetLength, targetMetric);
+  return {
+    summary: renderSentences(style, spoken, selection.selected, citations, language),
+    achieved: selection.achieved,
+    selected: selection.selected.length,
+    redundant: selection.redundant,
+    steps: selection.steps,
+    cited: selection.selected.map(i => spoken[i])
+  };
+}
+
+/**
+ * List the best key phrases that fit the length budget
+ * @param spokenText - What was said, without speaker labels or timestamps
+ * @param targetLength - Length budget in the target metric, or null for the default count
+ * @param targetMetric - Whether the budget is counted in characters or words
+ * @param language - Language code of the transcript
+ * @returns The ranked phrases and their rendering
+ */
+function summarizeKeywords(
+  spokenText: string,
+  targetLength: number | null,
+  targetMetric: 'chars' | 'words',
+  language: string
+): StyledSummary & { keywords: KeyPhrase[] } {
+  const phrases = extractKeyPhrases(spokenText, Infinity, language);
+  const keywords: KeyPhrase[] = [];
+  let achieved = 0;
+  
+  for (const phrase of phrases) {
+    const length = measure(phrase.phrase, targetMetric);
+    if (targetLength === null ? keywords.length >= DEFAULT_KEYWORD_COUNT : achieved + length > targetLength) {
+      // Always list at least one phrase
+      if (keywords.length > 0) {
         break;
       }
     }
+    keywords.push(phrase);
+    achieved += length;
+  }
+  
+  return {
+    summary: keywords.map(k => `- ${k.phrase}`).join('\n'),
+    keywords,
+    achieved,
+    selected: keywords.length,
+    redundant: 0,
+    steps: keywords.length,
+    cited: []
+  };
+}
+
+/**
+ * List the most central action items that fit the length budget, with owners and deadlines
+ * @param spoken - Sentences of the transcript; their speakers decide who "I" is
+ * @param targetLength - Length budget in the target metric
+ * @param targetMetric - Whether the budget is counted in characters or words
+ * @param ranking - Sentence centrality method
+ * @param citations - Citation mode
+ * @param language - Language code of the transcript
+ * @returns The selected items and their rendering
+ */
+function summarizeActionItems(
+  spoken: TimedSentence[],
+  targetLength: number,
+  targetMetric: 'chars' | 'words',
+  ranking: RankingMethod,
+  citations: CitationMode,
+  language: string
+): StyledSummary & { actionItems: ActionItem[] } {
+  const candidates = detectActionItems(spoken);
+  const ranked = rankSentences(candidates.map(item => item.text), ranking, language);
+  const selection = selectByMmr(ranked, targetLength, targetMetric);
+  const actionItems = selection.selected.map(i => candidates[i]);
+  
+  const summary = actionItems.length > 0
+    ? actionItems
+      .map(item => {
+        const details = [item.owner ? `owner: ${item.owner}` : null, item.due ? `due: ${item.due}` : null]
+          .filter(detail => detail !== null);
+        return `- [ ] ${quote(spoken[item.index], citations)}` + (details.length > 0 ? ` (${details.join('; ')})` : '');
+      })
+      .join('\n')
+    : 'No action items found.';
+  
+  return {
+    summary,
+    actionItems,
+    achieved: selection.achieved,
+    selected: actionItems.length,
+    redundant: selection.redundant,
+    steps: selection.steps,
+    cited: actionItems.map(item => spoken[item.index])
+  };
+}
+
+/**
+ * Summarize text within an existing session
+ * @param textContent - Text to summarize
+ * @param options - Summary settings
+ * @param session - Session receiving the stats and artifacts
+ * @returns Promise resolving to the summary, with per-speaker details in per_speaker mode
+ */
+export async function summarizeContent(
+  textContent: string,
+  options: SummaryOptions,
+  session: ActiveSession
+): Promise<SummaryResult> {
+  const { 
+    constraint_type = null,
+    constraint_value = null,
+    mode = 'overall',
+    speaker_map = {},
+    ranking = 'textrank',
+    style = 'paragraph',
+    citations = 'none',
+    language = 'auto'
+  } = options;
+  
+  if (style === 'keywords' && citations !== 'none') {
+    throw new McpError(ErrorCode.InvalidParams, 'Citations are not available for the keywords style');
+  }
+  
+  const logger = new Logger(session.id);
+  
+  // ACE-Driven Processing
+  // Step 1: Priming Stage
+  // Timestamped and speaker-labelled transcripts are read as what was said, each sentence
+  // keeping the time range and speaker it came from
+  const parsed = parseTranscript(textContent, 'auto', speaker_map);
+  
+  // Raw speech recognition output has no sentence marks to split on until they are restored
+  const resolvedLanguage = resolveLanguage(language, parsed.segments.map(segment => segment.text).join('\n'));
+  const { segments } = needsPunctuation(parsed.segments)
+    ? restorePunctuation(parsed.segments, parsed.timed, { language: resolvedLanguage })
+    : parsed;
+  const spoken = segmentSentences(segments, parsed.timed);
+  const spokenText = segments.map(segment => segment.text).join('\n');
+  const contentLength = spokenText.length;
+  const wordCount = countWords(spokenText);
+  
+  // Determine target length based on constraint
+  let targetLength: number;
+  if (constraint_type === 'time') {
+    // Base rate: the language's speaking rate, in words (or characters) per minute
+    const baseRate = LANGUAGES[resolvedLanguage].speakingRate;
+    targetLength = constraint_value ? constraint_value * baseRate / 60 : wordCount * 0.3;
+  } else if (constraint_type === 'chars') {
+    targetLength = constraint_value ? constraint_value : contentLength * 0.3;
+  } else if (constraint_type === 'words') {
+    targetLength = constraint_value ? constraint_value : wordCount * 0.3;
+  } else {
+    // Default constraint: 30% of original
+    targetLength = wordCount * 0.3;
+  }
+  
+  // Step 2: Comprehension Stage
+  // Build the sentence graph of the whole document; its shape is what the log reports
+  const sentences = spoken.map(sentence => sentence.text);
+  const graph = rankSentences(sentences, ranking, resolvedLanguage);
+  const keyTerms = topTerms(graph, 5);
+  const possibleEdges = sentences.length * (sentences.length - 1) / 2;
+  
+  const primingFactors = [
+    `${wordCount} words in ${sentences.length} sentences (${LANGUAGES[resolvedLanguage].name})`,
+    `${graph.termWeights.size} distinct content terms after stopword removal`,
+    `${ranking} sentence centrality`,
+    `${constraint_type || 'default'} length budget of ${Math.round(targetLength)}`
+  ];
+  
+  const comprehensionMetrics = {
+    sentences: sentences.length,
+    distinctTerms: graph.termWeights.size,
+    graphEdges: graph.edges,
+    graphDensity: possibleEdges > 0 ? Math.round(graph.edges / possibleEdges * 1000) / 1000 : 0,
+    keyTerms
+  };
+  
+  const targetMetric = constraint_type === 'chars' ? 'chars' : 'words';
+  
+  // Step 3: Context Clarification Stage
+  // Per-speaker summaries rank each participant's sentences in a graph of their own
+  // Step 4: Expanding Stage
+  // Add the most central sentences that do not repeat what is already selected
+  let styled: StyledSummary;
+  let speakers: SpeakerSummary[] | undefined;
+  let keywords: KeyPhrase[] | undefined;
+  let actionItems: ActionItem[] | undefined;
+  let semanticUnits = sentences.length;
+  
+  if (mode === 'per_speaker') {
+    if (style !== 'paragraph' && style !== 'bullets') {
+      throw new McpError(ErrorCode.InvalidParams, `The ${style} style is not available in per_speaker mode`);
+    }
     
-    // Step 5: Recursive Stage
-    // In a real implementation, this would iteratively refine the summary
-    // For simulation, we'll just reorder the sentences to follow the original text flow
-    
-    // Get original order of selected sentences
-    const sentenceIndexes = selectedSentences.map(sentence => {
-      return sentences.findIndex(s => s === sentence);
-    });
-    
-    // Sort by original position
-    const sortedIndexes = [...sentenceIndexes].sort((a, b) => a - b);
-    selectedSentences = sortedIndexes.map(index => {
-      return sentences[index];
-    });
-    
-    // Join the selected sentences to form the summary
-    let summary = selectedSentences.join(' ').trim();
-    
-    // Simulate refinement
-    const expansionIterations = 3;
-    const recursiveOptimizations = 2;
-    
-    // Log the summary process
-    const constraintDetails = {
-      type: constraint_type,
-      target: constraint_value,
-      achieved: currentLength
-    };
-    
-    const processStats = {
-      primingFactors,
-      comprehensionMetrics,
-      contextMaps,
-      expansionIterations,
-      recursiveOptimizations
-    };
+    // Summarize each participant separately, led by their talk-time share
+    const result = summarizeBySpeaker(
+      segments, spoken, targetLength, targetMetric, ranking, style, citations, resolvedLanguage
+    );
+    speakers = result.speakers;
+    semanticUnits = speakers.length;
+    styled = result;
+  } else if (style === 'keywords') {
+    const result = summarizeKeywords(spokenText, constraint_value ? targetLength : null, targetMetric, resolvedLanguage);
+    keywords = result.keywords;
+    styled = result;
+  } else if (style === 'action_items') {
+    const result = summarizeActionItems(spoken, targetLength, targetMetric, ranking, citations, resolvedLanguage);
+    actionItems = result.actionItems;
+    styled = result;
+  } else {
+    styled = summarizeSentences(graph, spoken, style, targetLength, targetMetric, citations, resolvedLanguage);
+  }
+  
+  // Step 5: Recursive Stage
+  // The selection comes back in original order, each sentence with the time range and speaker of its source
+  const cited: CitedSentence[] = styled.cited.map(sentence => ({
+    sentence: sentence.text,
+    start: sentence.start,
+    end: sentence.end,
+    speaker: sentence.speaker
+  }));
+  
+  const summary = citations === 'json' ? JSON.stringify(cited, null, 2) : styled.summary;
+  const currentLength = styled.achieved;
+  
+  // How much of the document's key vocabulary made it into the summary
+  const summaryTerms = new Set(splitSentences(styled.summary).flatMap(sentence => contentTerms(sentence, resolvedLanguage)));
+  const contextMaps = {
+    semanticUnits,
+    selected: styled.selected,
+    redundantSkipped: styled.redundant,
+    topCentrality: Math.round(Math.max(0, ...graph.scores) * 10000) / 10000,
+    keyTermCoverage: keyTerms.length > 0
+      ? Math.round(keyTerms.filter(term => summaryTerms.has(term)).length / keyTerms.length * 100) / 100
+      : 0
+  };
+  
+  // Power iterations until centrality converged, and selection rounds
+  const expansionIterations = graph.iterations;
+  const recursiveOptimizations = styled.steps;
+  
+  // Log the summary process
+  const constraintDetails = {
+    type: constraint_type,
+    target: constraint_value,
+    achieved: currentLength
+  };
+  
+  const processStats = {
+    primingFactors,
+    comprehensionMetrics,
+    contextMaps,
+    expansionIterations,
+    recursiveOptimizations
+  };
+  
+  session.artifacts.log = await logger.logSummaryProcess(constraintDetails, processStats);
+  await new SessionStore().saveArtifact(session, 'summary', summary, citations === 'json' ? 'json' : 'txt');
+  session.stats = { language: resolvedLanguage, wordCount, achieved: currentLength };
+  
+  const result: SummaryResult = { summary };
+  if (speakers) {
+    result.speakers = speakers;
+  }
+  if (keywords) {
+    result.keywords = keywords;
+  }
+  if (actionItems) {
+    result.action_items = actionItems;
+  }
+  if (citations !== 'none') {
+    result.citations = cited;
+  }
+  return result;
+}
+
+/**
+ * Generate intelligent summaries of processed transcripts using ACE cognitive methodology
+ * @param params - Parameters for the summary process
+ * @returns Object containing the summary text
+ */
+export async function summaryText(
+  params: SummaryTextParams
+): Promise<SummaryResult> {
+  try {
+    const { input_text, is_file_path = false, ...options } = params;
     
-    await logger.logSummaryProcess(constraintDetails, processStats);
+    // Resolve content (either direct text or from file)
+    const textContent = await FileHandler.resolveTextContent(input_text, is_file_path);
     
-    return { summary };
+    // Record the run in the session registry
+    return await new SessionStore().track('summary_text', params, session =>
+      summarizeContent(textContent, options, session)
+    );
   } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
     throw new Error(`Summary process failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
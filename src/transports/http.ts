@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import { promisify } from 'util';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { getConfig, withConfig, ServerConfig, TransportConfig } from '../utils/config.js';
+
+/**
+ * An MCP server that serves one client connection
+ */
+export interface McpConnection {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * A running HTTP server and the connections it holds
+ */
+export interface HttpServerHandle {
+  url: string; // address clients connect to
+  close(): Promise<void>;
+}
+
+/**
+ * A connected client, with the folders its tools work in
+ */
+interface Connection {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpConnection;
+  scope: Partial<ServerConfig>;
+}
+
+// Streamable HTTP endpoint
+const MCP_PATH = '/mcp';
+
+// Legacy SSE endpoints: the event stream, and where its clients post their messages
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+const HEALTH_PATH = '/health';
+
+// Folder below the log and output directories that holds a folder per connection
+const CONNECTIONS_DIR = 'connections';
+
+const readdirAsync = promisify(fs.readdir);
+
+/**
+ * Send a JSON body
+ * @param res - Response to write
+ * @param status - HTTP status code
+ * @param body - Value to send as JSON
+ * @param headers - Extra response headers
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error that answers no particular request
+ * @param res - Response to write
+ * @param status - HTTP status code
+ * @param message - Error message
+ * @param headers - Extra response headers
+ */
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+/**
+ * Check the bearer token of a request
+ * @param req - Incoming request
+ * @param token - Token clients must send, empty to accept any client
+ * @returns True if the request may proceed
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  if (token === '') {
+    return true;
+  }
+
+  // Compare digests so the comparison takes the same time whatever the token's length
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return match !== null && crypto.timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * Folders of one connection, below the configured ones, so clients never see each other's
+ * sessions, logs or outputs
+ * The connection folders are kept out of the input roots, which often contain them, so a
+ * client can only read its own outputs back as input
+ * @param id - Connection ID
+ * @returns Settings to run the connection's requests with
+ */
+function connectionScope(id: string): Partial<ServerConfig> {
+  const { logDir, outputDir, excludedDirs } = getConfig();
+  return {
+    logDir: path.join(logDir, CONNECTIONS_DIR, id),
+    outputDir: path.join(outputDir, CONNECTIONS_DIR, id),
+    excludedDirs: [...excludedDirs, path.resolve(logDir, CONNECTIONS_DIR), path.resolve(outputDir, CONNECTIONS_DIR)]
+  };
+}
+
+/**
+ * Log directories of the connections served so far, by this run of the server or earlier ones
+ * @returns Promise resolving to each connection's log directory
+ */
+export async function connectionLogDirs(): Promise<string[]> {
+  const root = path.join(getConfig().logDir, CONNECTIONS_DIR);
+  try {
+    const entries = await readdirAsync(root, { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory()).map(entry => path.join(root, entry.name));
+  } catch (error) {
+    // No connection has been served yet
+    return [];
+  }
+}
+
+/**
+ * Serve a request to the Streamable HTTP endpoint
+ * A POST without a session ID starts a new connection; the transport rejects it unless it is an
+ * initialize request
+ * @param req - Incoming request
+ * @param res - Response to write
+ * @param connections - Open connections, by ID
+ * @param createServer - Creates the MCP server of a new connection
+ */
+async function handleStreamable(
+  req: IncomingMessage,
+  res: ServerResponse,
+  connections: Map<string, Connection>,
+  createServer: () => McpConnection
+): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId === 'string') {
+    const connection = connections.get(sessionId);
+    if (!connection || !(connection.transport instanceof StreamableHTTPServerTransport)) {
+      sendError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    const { transport, scope } = connection;
+    await withConfig(scope, () => transport.handleRequest(req, res));
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendError(res, 400, 'Missing Mcp-Session-Id header');
+    return;
+  }
+
+  const id = crypto.randomUUID();
+  const scope = connectionScope(id);
+  const server = createServer();
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => id,
+    onsessioninitialized: () => {
+      connections.set(id, { transport, server, scope });
+    }
+  });
+  transport.onclose = () => {
+    connections.delete(id);
+  };
+
+  await server.connect(transport);
+  await withConfig(scope, () => transport.handleRequest(req, res));
+  if (!connections.has(id)) {
+    await server.close();
+  }
+}
+
+/**
+ * Serve a request to the legacy SSE endpoints
+ * @param req - Incoming request
+ * @param res - Response to write
+ * @param pathname - Path of the request
+ * @param connections - Open connections, by ID
+ * @param createServer - Creates the MCP server of a new connection
+ */
+async function handleSse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  connections: Map<string, Connection>,
+  createServer: () => McpConnection
+): Promise<void> {
+  if (pathname === SSE_PATH && req.method === 'GET') {
+    // The stream stays open for the life of the connection
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const id = transport.sessionId;
+    const server = createServer();
+    connections.set(id, { transport, server, scope: connectionScope(id) });
+    transport.onclose = () => {
+      connections.delete(id);
+    };
+    await server.connect(transport);
+    return;
+  }
+
+  if (pathname === MESSAGES_PATH && req.method === 'POST') {
+    const sessionId = new URL(req.url ?? '', 'http://localhost').searchParams.get('sessionId') ?? '';
+    const connection = connections.get(sessionId);
+    if (!connection || !(connection.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    const { transport, scope } = connection;
+    await withConfig(scope, () => transport.handlePostMessage(req, res));
+    return;
+  }
+
+  sendError(res, 405, 'Method not allowed', { Allow: pathname === SSE_PATH ? 'GET' : 'POST' });
+}
+
+/**
+ * Serve MCP over Streamable HTTP, or the legacy SSE transport, until closed
+ * Every connection gets an MCP server of its own, and its tools work in folders of their own
+ * below the log and output directories. The health endpoint answers without a token
+ * @param config - Transport settings
+ * @param createServer - Creates the MCP server of a new connection
+ * @returns Promise resolving once the server is listening
+ */
+export async function startHttpServer(
+  config: TransportConfig,
+  createServer: () => McpConnection
+): Promise<HttpServerHandle> {
+  const connections = new Map<string, Connection>();
+  const endpoints = config.transport === 'sse' ? [SSE_PATH, MESSAGES_PATH] : [MCP_PATH];
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', transport: config.transport, connections: connections.size });
+      return;
+    }
+    if (!endpoints.includes(pathname)) {
+      sendError(res, 404, `Not found: ${pathname}`);
+      return;
+    }
+    if (!isAuthorized(req, config.authToken)) {
+      sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (config.transport === 'sse') {
+      await handleSse(req, res, pathname, connections, createServer);
+    } else {
+      await handleStreamable(req, res, connections, createServer);
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('[HTTP Error]', error);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address !== null ? address.port : config.port;
+  const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+
+  return {
+    url: `http://${host}:${port}${endpoints[0]}`,
+    close: async () => {
+      for (const { server } of [...connections.values()]) {
+        await server.close();
+      }
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
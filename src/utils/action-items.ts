@@ -0,0 +1,164 @@
+/**
+ * A sentence attributed to the speaker who said it
+ */
+export interface SpokenSentence {
+  text: string;
+  speaker: string | null;
+}
+
+/**
+ * A commitment or decision found in a transcript
+ */
+export interface ActionItem {
+  index: number; // position of the sentence in the input
+  text: string;
+  speaker: string | null;
+  owner: string | null; // who the item falls to, when it can be told
+  due: string | null; // deadline phrase such as "by Friday"
+  cue: string; // the phrase that marked the sentence as an action item
+}
+
+/**
+ * Phrases that mark a request to someone or a decision on their own
+ */
+const ACTION_CUES: RegExp[] = [
+  /\b(?:can|could|would) you\b/i,
+  /\b(?:we|they|i) (?:decided|agreed)\b/i,
+  /\b(?:action items?|next steps?|follow[ -]up|to-do|todo)\b/i
+];
+
+// Verbs of work someone can be given, as opposed to what a meeting talks about
+const TASK_VERB = '(?:send|share|check|prepare|review|schedule|update|draft|set up|follow up|write|fix|book|call|email'
+  + '|look into|finish|submit|deliver|create|test|deploy|organi[sz]e|contact|order|confirm|circulate|reach out'
+  + '|get back|ask|file|finali[sz]e|sort out|arrange)';
+
+/**
+ * Future-tense and obligation phrases followed by a task verb: "I'll send", "we need to
+ * book", "let me check", "Dana is going to draft". A future tense alone, as in "today we will
+ * discuss", is no commitment
+ */
+const COMMITMENT = new RegExp(
+  '\\b(?:\\w+(?:\'ll|’ll| will| shall| (?:is|am|are) going to|\'m going to|’m going to|\'re going to|’re going to'
+    + '| needs? to| ha(?:ve|s) to)|let(?:\'s|’s| us| me))'
+    + `\\s+(?:\\w+\\s+)?${TASK_VERB}\\b`,
+  'i'
+);
+
+// A sentence that opens with a task verb is an instruction: "Send the deck by Friday"
+const INSTRUCTION = new RegExp(`^\\s*(?:please\\s+)?${TASK_VERB}\\b`, 'i');
+
+const WEEKDAY = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const MONTH = '(?:january|february|march|april|may|june|july|august|september|october|november|december)';
+
+/**
+ * Deadline phrases: "by Friday", "before next week", "end of day", "tomorrow", "on March 3rd"
+ */
+const DEADLINE = new RegExp(
+  '\\b(?:(?:by|before|until|due|on)\\s+)?(?:'
+    + `(?:next |this )?${WEEKDAY}`
+    + '|tomorrow|tonight|today'
+    + '|(?:the )?end of (?:the )?(?:day|week|month|quarter|year)'
+    + '|eod|eow'
+    + '|next (?:week|month|quarter)'
+    + `|${MONTH} \\d{1,2}(?:st|nd|rd|th)?`
+    + `|\\d{1,2}(?:st|nd|rd|th)? (?:of )?${MONTH}`
+    + ')\\b',
+  'i'
+);
+
+/**
+ * Escape a literal string for use in a regular expression
+ * @param value - Literal text
+ * @returns Escaped pattern source
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find a participant who is given something to do by name: "Alice will…", "Bob, can you…"
+ * @param sentence - The sentence to check
+ * @param participants - Everyone who speaks in the transcript
+ * @returns The participant and the phrase naming them, or null if nobody is named
+ */
+function findAssignee(sentence: string, participants: string[]): { participant: string; phrase: string } | null {
+  for (const participant of participants) {
+    // Either the full label or its first word, as people are addressed by first name
+    const names = Array.from(new Set([participant, participant.split(/\s+/)[0]]));
+    for (const name of names) {
+      const named = new RegExp(
+        `\\b${escapeRegExp(name)}(?:,)?\\s+(?:will|'ll|’ll|is going to|can|could|should|needs to|has to|to)\\b`,
+        'i'
+      );
+      const match = sentence.match(named);
+      if (match) {
+        return { participant, phrase: match[0] };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Work out who an action item falls to
+ * A named participant takes it; otherwise "I" means the speaker and "you" the other
+ * person in a two-way conversation
+ * @param sentence - The action item sentence
+ * @param speaker - Who said it
+ * @param participants - Everyone who speaks in the transcript
+ * @returns The owner, or null if unclear
+ */
+function detectOwner(sentence: string, speaker: string | null, participants: string[]): string | null {
+  const assignee = findAssignee(sentence, participants);
+  if (assignee) {
+    return assignee.participant;
+  }
+
+  if (/\b(?:i(?:'ll|’ll| will| shall| can| need to| have to)|i(?:'m|’m| am) going to|let me)\b/i.test(sentence)) {
+    return speaker;
+  }
+
+  if (/\b(?:(?:can|could|would) you|you(?:'ll|’ll| will| need to| have to))\b/i.test(sentence)) {
+    const others = participants.filter(p => p !== speaker);
+    return others.length === 1 ? others[0] : null;
+  }
+
+  return null;
+}
+
+/**
+ * Find the sentences that record commitments, requests and decisions
+ * A sentence counts when it makes a request or records a decision, names a participant who is
+ * to do something, or puts a task verb after a future tense or an obligation; a deadline such as
+ * "by Friday" is noted but marks nothing by itself
+ * @param sentences - Sentences in order, with their speakers
+ * @returns Action items in order of appearance
+ */
+export function detectActionItems(sentences: SpokenSentence[]): ActionItem[] {
+  const participants = Array.from(new Set(
+    sentences.map(s => s.speaker).filter((speaker): speaker is string => speaker !== null)
+  ));
+  const items: ActionItem[] = [];
+
+  sentences.forEach(({ text, speaker }, index) => {
+    const deadline = text.match(DEADLINE);
+    const cue = ACTION_CUES.map(pattern => text.match(pattern)).find(match => match !== null)?.[0]
+      ?? findAssignee(text, participants)?.phrase
+      ?? text.match(COMMITMENT)?.[0]
+      ?? text.match(INSTRUCTION)?.[0].trim();
+    if (!cue) {
+      return;
+    }
+
+    items.push({
+      index,
+      text,
+      speaker,
+      owner: detectOwner(text, speaker, participants),
+      due: deadline ? deadline[0] : null,
+      cue
+    });
+  });
+
+  return items;
+}
@@ -0,0 +1,213 @@
+/**
+ * How a reference token lines up with the hypothesis
+ */
+export type EditOperation = 'match' | 'substitution' | 'insertion' | 'deletion';
+
+/**
+ * One step of an alignment; insertions have no reference token and deletions no hypothesis token
+ */
+export interface AlignedPair {
+  operation: EditOperation;
+  reference: string | null;
+  hypothesis: string | null;
+}
+
+/**
+ * Edit counts of an alignment
+ */
+export interface EditCounts {
+  hits: number;
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * A recurring error, counted over an alignment
+ */
+export interface Confusion {
+  operation: Exclude<EditOperation, 'match'>;
+  reference: string | null;
+  hypothesis: string | null;
+  count: number;
+}
+
+// Cells of the alignment table held in memory; longer texts are only aligned within a band
+// around the diagonal, which can overstate the distance when the texts drift far apart
+const MAX_ALIGNMENT_CELLS = 25_000_000;
+
+// Moves stored in the alignment table
+const FROM_DIAGONAL = 1;
+const FROM_ABOVE = 2; // deletion
+const FROM_LEFT = 3; // insertion
+
+// Steps of the tie-breaking cost a substitution adds for words that share less of their spelling
+const SPELLING_STEPS = 4;
+
+/**
+ * How far apart two different tokens are in spelling, judged by the start they share
+ * @param a - First token
+ * @param b - Second token
+ * @returns 0 when one token starts the other, up to SPELLING_STEPS when they share nothing
+ */
+function spellingDistance(a: string, b: string): number {
+  let shared = 0;
+  while (shared < a.length && shared < b.length && a[shared] === b[shared]) {
+    shared++;
+  }
+  return Math.round(SPELLING_STEPS * (1 - shared / Math.max(1, Math.min(a.length, b.length))));
+}
+
+/**
+ * Align two token sequences with the fewest substitutions, insertions and deletions
+ * Among alignments with the fewest edits, the one with the fewest and closest substitutions
+ * wins, and a deletion or insertion wins a remaining tie with a substitution. A repeated or
+ * dropped word then shows up as an insertion or deletion, rather than shifting the words after
+ * it into substitutions of their neighbours
+ * @param reference - Tokens of the reference text
+ * @param hypothesis - Tokens of the text being scored
+ * @returns Alignment steps in order
+ */
+export function alignTokens(reference: string[], hypothesis: string[]): AlignedPair[] {
+  const rows = reference.length;
+  const columns = hypothesis.length;
+
+  // Every edit costs gapCost, and a substitution a little more the less alike its words are;
+  // the extra of all substitutions put together stays below gapCost, so it only decides
+  // between alignments with as many edits
+  const gapCost = (rows + columns + 1) * (SPELLING_STEPS + 1);
+  const substitutionCost = (a: string, b: string) => gapCost + 1 + spellingDistance(a, b);
+
+  // Each row covers a window of hypothesis positions centred on the diagonal
+  const fullTable = (rows + 1) * (columns + 1) <= MAX_ALIGNMENT_CELLS;
+  const radius = fullTable ? columns : Math.max(1, Math.floor(MAX_ALIGNMENT_CELLS / (rows + 1) / 2));
+  const width = Math.min(columns, 2 * radius) + 1;
+  const starts = new Int32Array(rows + 1);
+  const moves = new Uint8Array((rows + 1) * width);
+
+  let previous = new Float64Array(width).fill(Infinity);
+  let current = new Float64Array(width);
+
+  for (let i = 0; i <= rows; i++) {
+    const centre = rows === 0 ? 0 : Math.round(i * columns / rows);
+    const start = Math.max(0, Math.min(centre - radius, columns + 1 - width));
+    const previousStart = i > 0 ? starts[i - 1] : 0;
+    starts[i] = start;
+
+    for (let k = 0; k < width; k++) {
+      const j = start + k;
+      if (i === 0 && j === 0) {
+        current[k] = 0;
+        continue;
+      }
+
+      let best = Infinity;
+      let move = 0;
+      let matched = false;
+      const above = j - previousStart;
+      if (i > 0 && j > 0 && above - 1 >= 0 && above - 1 < width) {
+        matched = reference[i - 1] === hypothesis[j - 1];
+        best = previous[above - 1] + (matched ? 0 : substitutionCost(reference[i - 1], hypothesis[j - 1]));
+        move = FROM_DIAGONAL;
+      }
+      // A deletion or insertion wins a tie with a substitution, not with a match
+      const deletion = i > 0 && above >= 0 && above < width ? previous[above] + gapCost : Infinity;
+      if (deletion < best || (deletion === best && !matched)) {
+        best = deletion;
+        move = FROM_ABOVE;
+      }
+      const insertion = k > 0 ? current[k - 1] + gapCost : Infinity;
+      if (insertion < best || (insertion === best && !matched)) {
+        best = insertion;
+        move = FROM_LEFT;
+      }
+
+      current[k] = best;
+      moves[i * width + k] = move;
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  // Walk back from the end of both texts
+  const pairs: AlignedPair[] = [];
+  let i = rows;
+  let j = columns;
+  while (i > 0 || j > 0) {
+    const move = moves[i * width + j - starts[i]];
+    if (move === FROM_DIAGONAL) {
+      const match = reference[i - 1] === hypothesis[j - 1];
+      pairs.push({ operation: match ? 'match' : 'substitution', reference: reference[i - 1], hypothesis: hypothesis[j - 1] });
+      i--;
+      j--;
+    } else if (move === FROM_ABOVE) {
+      pairs.push({ operation: 'deletion', reference: reference[i - 1], hypothesis: null });
+      i--;
+    } else {
+      pairs.push({ operation: 'insertion', reference: null, hypothesis: hypothesis[j - 1] });
+      j--;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * Count the steps of an alignment by operation
+ * @param pairs - Alignment steps
+ * @returns Edit counts
+ */
+export function countEdits(pairs: AlignedPair[]): EditCounts {
+  const counts: EditCounts = { hits: 0, substitutions: 0, insertions: 0, deletions: 0 };
+  for (const pair of pairs) {
+    if (pair.operation === 'match') {
+      counts.hits++;
+    } else if (pair.operation === 'substitution') {
+      counts.substitutions++;
+    } else if (pair.operation === 'insertion') {
+      counts.insertions++;
+    } else {
+      counts.deletions++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Error rate of an alignment: edits per reference token
+ * @param counts - Edit counts
+ * @returns Error rate, which exceeds 1 when the hypothesis adds more than the reference holds
+ */
+export function errorRate(counts: EditCounts): number {
+  const errors = counts.substitutions + counts.insertions + counts.deletions;
+  const referenceLength = counts.hits + counts.substitutions + counts.deletions;
+  if (referenceLength === 0) {
+    return errors > 0 ? 1 : 0;
+  }
+  return errors / referenceLength;
+}
+
+/**
+ * Tally the errors of an alignment, most frequent first
+ * @param pairs - Alignment steps
+ * @param limit - Number of confusions to return
+ * @returns Recurring errors, ties broken by first occurrence
+ */
+export function topConfusions(pairs: AlignedPair[], limit: number): Confusion[] {
+  const tally = new Map<string, Confusion>();
+  for (const { operation, reference, hypothesis } of pairs) {
+    if (operation === 'match') {
+      continue;
+    }
+    const key = `${operation}\u0000${reference ?? ''}\u0000${hypothesis ?? ''}`;
+    const confusion = tally.get(key);
+    if (confusion) {
+      confusion.count++;
+    } else {
+      tally.set(key, { operation, reference, hypothesis, count: 1 });
+    }
+  }
+
+  // Sorting is stable, so equal counts keep their order of appearance
+  return [...tally.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+}
@@ -0,0 +1,395 @@
+import { createRequire } from 'module';
+import { doubleMetaphone } from 'double-metaphone';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * A scored replacement candidate for an out-of-vocabulary word
+ */
+export interface Candidate {
+  word: string;
+  confidence: number; // percentage
+  distance: number;
+  evidence: string[];
+  decisive: boolean; // clear of the runner-up or supported by a neighbouring word pair, so it may be applied unreviewed
+}
+
+/**
+ * Word list tiers from the SCOWL-based wordlist-english package, with a
+ * frequency weight for each (smaller tiers hold more common words)
+ */
+const WORD_LIST_TIERS: Array<{ size: number; weight: number }> = [
+  { size: 10, weight: 1.0 },
+  { size: 20, weight: 0.85 },
+  { size: 35, weight: 0.7 },
+  { size: 40, weight: 0.6 },
+  { size: 50, weight: 0.5 }
+];
+
+// Spelling variants loaded from the word list, so that British and other spellings count as known words
+const WORD_LIST_VARIANTS = ['english', 'american', 'british', 'canadian', 'australian'];
+
+// Lead in confidence points over the runner-up that an unsupported best candidate needs to be decisive
+const DECISIVE_MARGIN = 15;
+
+// Relative weight of each signal in the final confidence; context only ever adds support
+const SCORE_WEIGHTS = {
+  edit: 0.4,
+  phonetic: 0.4,
+  frequency: 0.2,
+  context: 0.1
+};
+
+/**
+ * Indexed vocabulary used for out-of-vocabulary detection and candidate lookup
+ * A vocabulary may extend a parent, so per-run terms never modify the shared word list
+ */
+export class Vocabulary {
+  private frequency = new Map<string, number>();
+  private canonical = new Map<string, string>(); // lower-case -> preferred spelling
+  private byFirstLetter = new Map<string, string[]>();
+  private byPhoneticKey = new Map<string, string[]>();
+  private knownTerms = new Set<string>();
+
+  /**
+   * Create a vocabulary
+   * @param parent - Vocabulary to extend, if any
+   */
+  constructor(private parent: Vocabulary | null = null) {}
+
+  /**
+   * Add a word to the vocabulary
+   * @param word - Word in its preferred spelling
+   * @param weight - Frequency weight between 0 and 1
+   * @param isKnownTerm - Whether the caller supplied this term
+   */
+  add(word: string, weight: number, isKnownTerm = false): void {
+    const key = word.toLowerCase();
+    if (key.length < 2) {
+      return;
+    }
+
+    if (isKnownTerm) {
+      this.knownTerms.add(key);
+      this.canonical.set(key, word);
+    } else if (!this.canonical.has(key)) {
+      this.canonical.set(key, word);
+    }
+
+    const existing = this.frequency.get(key);
+    if (existing !== undefined) {
+      this.frequency.set(key, Math.max(existing, weight));
+      return;
+    }
+    this.frequency.set(key, weight);
+
+    // Words already indexed by the parent need no second index entry
+    if (this.parent?.has(key)) {
+      return;
+    }
+
+    const bucket = this.byFirstLetter.get(key[0]) ?? [];
+    bucket.push(key);
+    this.byFirstLetter.set(key[0], bucket);
+
+    for (const code of new Set(doubleMetaphone(key))) {
+      if (code !== '') {
+        const words = this.byPhoneticKey.get(code) ?? [];
+        words.push(key);
+        this.byPhoneticKey.set(code, words);
+      }
+    }
+  }
+
+  has(word: string): boolean {
+    return this.frequency.has(word.toLowerCase()) || (this.parent?.has(word) ?? false);
+  }
+
+  weight(word: string): number {
+    return this.frequency.get(word.toLowerCase()) ?? this.parent?.weight(word) ?? 0;
+  }
+
+  spelling(word: string): string {
+    return this.canonical.get(word.toLowerCase()) ?? this.parent?.spelling(word) ?? word;
+  }
+
+  isKnownTerm(word: string): boolean {
+    return this.knownTerms.has(word.toLowerCase()) || (this.parent?.isKnownTerm(word) ?? false);
+  }
+
+  wordsStartingWith(letter: string): string[] {
+    const own = this.byFirstLetter.get(letter) ?? [];
+    return this.parent ? [...this.parent.wordsStartingWith(letter), ...own] : own;
+  }
+
+  wordsWithPhoneticKey(code: string): string[] {
+    const own = this.byPhoneticKey.get(code) ?? [];
+    return this.parent ? [...this.parent.wordsWithPhoneticKey(code), ...own] : own;
+  }
+
+  terms(): string[] {
+    return this.parent ? [...this.parent.terms(), ...this.knownTerms] : [...this.knownTerms];
+  }
+}
+
+let baseVocabulary: Vocabulary | null = null;
+
+/**
+ * Load the bundled English word list in all its spelling variants, building the index on first use
+ * @returns The shared base vocabulary
+ */
+function loadBaseVocabulary(): Vocabulary {
+  if (!baseVocabulary) {
+    const vocabulary = new Vocabulary();
+    for (const tier of WORD_LIST_TIERS) {
+      for (const variant of WORD_LIST_VARIANTS) {
+        const words: string[] = require(`wordlist-english/${variant}-words-${tier.size}.json`);
+        for (const word of words) {
+          vocabulary.add(word, tier.weight);
+        }
+      }
+    }
+    baseVocabulary = vocabulary;
+  }
+  return baseVocabulary;
+}
+
+/**
+ * Build a vocabulary from the bundled word list plus caller-supplied terms
+ * Multi-word terms contribute each of their words
+ * @param knownTerms - Domain terms, product names and proper nouns
+ * @returns Vocabulary for a single repair run
+ */
+export function buildVocabulary(knownTerms: string[] = []): Vocabulary {
+  const vocabulary = new Vocabulary(loadBaseVocabulary());
+  for (const term of knownTerms) {
+    for (const word of term.split(/\s+/).filter(w => w !== '')) {
+      vocabulary.add(word, 1, true);
+    }
+  }
+  return vocabulary;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment variant)
+ * @param a - First word
+ * @param b - Second word
+ * @param maxDistance - Stop early and return maxDistance + 1 once exceeded
+ * @returns Number of insertions, deletions, substitutions and adjacent transpositions
+ */
+export function damerauLevenshtein(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Word unigram and bigram counts for a document, used as local context
+ * A document read in chunks is counted a chunk at a time with add()
+ */
+export class ContextModel {
+  private unigrams = new Map<string, number>();
+  private bigrams = new Map<string, number>();
+  private last: string | null = null; // last token counted, which may pair with the next chunk's first
+
+  /**
+   * Count in-vocabulary words and word pairs in a token sequence
+   * @param tokens - Lower-case tokens in document order
+   * @param vocabulary - Vocabulary used to skip unknown words
+   */
+  constructor(tokens: string[], private vocabulary: Vocabulary) {
+    this.add(tokens);
+  }
+
+  /**
+   * Count the tokens of the next part of the document
+   * @param tokens - Lower-case tokens in document order, following those already counted
+   */
+  add(tokens: string[]): void {
+    for (const token of tokens) {
+      const previous = this.last;
+      this.last = token;
+      if (!this.vocabulary.has(token)) {
+        continue;
+      }
+      this.unigrams.set(token, (this.unigrams.get(token) ?? 0) + 1);
+
+      if (previous !== null && this.vocabulary.has(previous)) {
+        const pair = `${previous} ${token}`;
+        this.bigrams.set(pair, (this.bigrams.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Score how well a word fits between its neighbours
+   * @param word - Candidate word
+   * @param previous - Preceding word, if any
+   * @param next - Following word, if any
+   * @returns Score between 0 (no support) and 1, the number of neighbouring word pairs seen and a
+   * description of the evidence found
+   */
+  score(word: string, previous: string | null, next: string | null): { score: number; bigrams: number; evidence: string[] } {
+    const evidence: string[] = [];
+    let score = 0;
+
+    const left = previous ? this.bigrams.get(`${previous} ${word}`) ?? 0 : 0;
+    const right = next ? this.bigrams.get(`${word} ${next}`) ?? 0 : 0;
+    const uses = this.unigrams.get(word) ?? 0;
+
+    if (left > 0) {
+      score += 0.4;
+      evidence.push(`Bigram "${previous} ${word}" seen ${left}x in document`);
+    }
+    if (right > 0) {
+      score += 0.4;
+      evidence.push(`Bigram "${word} ${next}" seen ${right}x in document`);
+    }
+    if (uses > 0) {
+      score += 0.2;
+      evidence.push(`"${word}" used ${uses}x elsewhere in document`);
+    }
+
+    return { score: Math.min(1, score), bigrams: left + right, evidence };
+  }
+}
+
+/**
+ * Generate and score replacement candidates for an out-of-vocabulary word
+ * Candidates come from words within a small edit distance and words sharing a Double Metaphone key
+ * @param word - The out-of-vocabulary word (lower-case)
+ * @param vocabulary - Vocabulary to draw candidates from
+ * @param context - Document context model
+ * @param previous - Preceding word, if any
+ * @param next - Following word, if any
+ * @returns Candidates sorted by descending confidence
+ */
+export function generateCandidates(
+  word: string,
+  vocabulary: Vocabulary,
+  context: ContextModel,
+  previous: string | null,
+  next: string | null
+): Candidate[] {
+  const maxEdit = word.length <= 4 ? 1 : 2;
+  const maxPhoneticEdit = Math.max(maxEdit, Math.ceil(word.length / 2));
+  const distances = new Map<string, number>();
+
+  const consider = (candidate: string, limit: number) => {
+    if (candidate === word || distances.has(candidate)) {
+      return;
+    }
+    const distance = damerauLevenshtein(word, candidate, limit);
+    if (distance <= limit) {
+      distances.set(candidate, distance);
+    }
+  };
+
+  // Spelling neighbours sharing the first letter
+  for (const candidate of vocabulary.wordsStartingWith(word[0])) {
+    consider(candidate, maxEdit);
+  }
+
+  // Sound-alike words, which may differ more in spelling
+  const [primary, secondary] = doubleMetaphone(word);
+  for (const code of new Set([primary, secondary])) {
+    if (code !== '') {
+      for (const candidate of vocabulary.wordsWithPhoneticKey(code)) {
+        consider(candidate, maxPhoneticEdit);
+      }
+    }
+  }
+
+  // Caller-supplied terms are always checked
+  for (const candidate of vocabulary.terms()) {
+    consider(candidate, maxPhoneticEdit);
+  }
+
+  const scored = Array.from(distances, ([candidate, distance]) => {
+    const evidence: string[] = [`Damerau-Levenshtein distance ${distance}`];
+
+    const editScore = 1 - distance / Math.max(word.length, candidate.length);
+
+    const codes = doubleMetaphone(candidate);
+    let phoneticScore = 0;
+    if (codes[0] === primary) {
+      phoneticScore = 1;
+      evidence.push(`Double Metaphone match (${primary})`);
+    } else if (codes.includes(primary) || codes.includes(secondary)) {
+      phoneticScore = 0.8;
+      evidence.push(`Double Metaphone secondary match (${codes.join('/')})`);
+    }
+
+    const frequencyScore = vocabulary.weight(candidate);
+    evidence.push(vocabulary.isKnownTerm(candidate) ? 'Caller-supplied known term' : `Word list frequency weight ${frequencyScore}`);
+
+    const contextResult = context.score(candidate, previous, next);
+    evidence.push(...contextResult.evidence);
+
+    const score = Math.min(1, SCORE_WEIGHTS.edit * editScore
+      + SCORE_WEIGHTS.phonetic * phoneticScore
+      + SCORE_WEIGHTS.frequency * frequencyScore
+      + SCORE_WEIGHTS.context * contextResult.score);
+
+    return { word: vocabulary.spelling(candidate), score, distance, bigrams: contextResult.bigrams, evidence };
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.distance - b.distance);
+
+  // A close runner-up makes the best candidate less certain
+  const candidates = scored.map((candidate, i) => {
+    const margin = i === 0 && scored[1] ? candidate.score - scored[1].score : 1;
+    const penalty = margin < 0.1 ? (0.1 - margin) * 100 : 0;
+    if (Math.round(penalty) > 0) {
+      candidate.evidence.push(`Ambiguous with "${scored[1].word}" (-${Math.round(penalty)}%)`);
+    }
+
+    return {
+      word: candidate.word,
+      confidence: Math.max(0, Math.round(candidate.score * 100 - penalty)),
+      distance: candidate.distance,
+      evidence: candidate.evidence,
+      decisive: candidate.bigrams > 0
+    };
+  });
+
+  // Without a neighbouring word pair, only a clear lead over the runner-up makes the best candidate decisive
+  const [best, runnerUp] = candidates;
+  if (best && !best.decisive) {
+    best.decisive = !runnerUp || best.confidence - runnerUp.confidence >= DECISIVE_MARGIN;
+    if (!best.decisive) {
+      best.evidence.push(`Only ${best.confidence - runnerUp.confidence} points ahead of "${runnerUp.word}", needs review`);
+    }
+  }
+
+  return candidates;
+}
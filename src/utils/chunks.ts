@@ -0,0 +1,114 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { TranscriptSegment } from '../parsers/types.js';
+import { checkpoint, ProgressContext } from './progress.js';
+
+/**
+ * Transcript text, either whole or as chunks of whole lines streamed from a file
+ */
+export type TextSource = string | AsyncIterable<string>;
+
+/**
+ * Split text into runs of whole lines of about the given size
+ * A line longer than the limit becomes a chunk of its own
+ * @param text - Text to split
+ * @param maxChars - Chunk size in characters, 0 for a single chunk
+ * @returns Chunks that join back into the original text
+ */
+export function splitTextChunks(text: string, maxChars: number): string[] {
+  if (maxChars <= 0 || text.length <= maxChars) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = start + maxChars;
+    if (end >= text.length) {
+      chunks.push(text.slice(start));
+      break;
+    }
+
+    // Cut after the last line break inside the chunk, or after the line that overflows it
+    const lineEnd = text.lastIndexOf('\n', end - 1);
+    end = lineEnd >= start ? lineEnd + 1 : text.indexOf('\n', end) + 1 || text.length;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Group consecutive segments into batches of about the given amount of text
+ * @param segments - Transcript segments
+ * @param maxChars - Batch size in characters of segment text, 0 for a single batch
+ * @returns Batches in transcript order
+ */
+export function batchSegments(segments: TranscriptSegment[], maxChars: number): TranscriptSegment[][] {
+  const batches: TranscriptSegment[][] = [];
+  let batch: TranscriptSegment[] = [];
+  let size = 0;
+
+  for (const segment of segments) {
+    if (maxChars > 0 && batch.length > 0 && size + segment.text.length > maxChars) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(segment);
+    size += segment.text.length;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches;
+}
+
+/**
+ * Walk a text source a run of whole lines at a time
+ * Progress through a whole text is reported here; a streamed file reports its own as it is read
+ * @param source - Whole text or streamed chunks
+ * @param maxChars - Chunk size in characters for a whole text, 0 for a single chunk
+ * @param progress - Progress context of the run
+ * @returns Async iterator over chunks that join back into the text
+ */
+export async function* textChunks(
+  source: TextSource,
+  maxChars: number,
+  progress: ProgressContext = {}
+): AsyncGenerator<string> {
+  if (typeof source !== 'string') {
+    yield* source;
+    return;
+  }
+
+  const chunks = splitTextChunks(source, maxChars);
+  for (const [i, chunk] of chunks.entries()) {
+    yield chunk;
+    await checkpoint(progress, i + 1, chunks.length);
+  }
+}
+
+/**
+ * Read a text source into one string, for steps that need the whole text at once
+ * Streamed text stops being read as soon as it passes the size limit
+ * @param source - Whole text or streamed chunks
+ * @param maxBytes - Largest text accepted, 0 for no limit
+ * @returns Promise resolving to the text
+ */
+export async function readText(source: TextSource, maxBytes = 0): Promise<string> {
+  const chunks: string[] = [];
+  let bytes = 0;
+  for await (const chunk of typeof source === 'string' ? [source] : source) {
+    bytes += Buffer.byteLength(chunk);
+    if (maxBytes > 0 && bytes > maxBytes) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Input is over the ${maxBytes} byte limit for tools that read the whole text at once`
+      );
+    }
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+}
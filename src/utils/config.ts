@@ -0,0 +1,155 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+
+/**
+ * Server configuration, read from environment variables
+ */
+export interface ServerConfig {
+  logDir: string; // base directory for logs and session records
+  sessionRetentionDays: number; // 0 keeps sessions forever
+  maxSessions: number; // 0 keeps any number of sessions
+  inputRoots: string[]; // directories tools may read input files from
+  excludedDirs: string[]; // directories below the input roots that tools may not read from
+  outputDir: string; // workspace that output files are written to
+  maxFileBytes: number; // largest input file accepted, 0 for no limit
+  maxTextBytes: number; // largest inline input_text accepted, 0 for no limit
+  chunkChars: number; // size of the chunks long inputs are read and processed in, 0 for one chunk
+  redactionKey: string; // key that restore_redactions requires, empty to disable restoring
+}
+
+export type TransportKind = 'stdio' | 'http' | 'sse';
+
+/**
+ * How the server talks to its clients, read from command-line flags or environment variables
+ */
+export interface TransportConfig {
+  transport: TransportKind;
+  host: string; // interface the HTTP server listens on
+  port: number;
+  authToken: string; // bearer token HTTP clients must send, empty to accept any client
+}
+
+export const TRANSPORT_KINDS: TransportKind[] = ['stdio', 'http', 'sse'];
+
+// Settings that replace the configured ones for the work running in the current async context
+const overrides = new AsyncLocalStorage<Partial<ServerConfig>>();
+
+// Default limit on input file size
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// HTTP clients are only accepted from this machine unless another interface is configured
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+
+// Default chunk size, small enough for progress to be reported every few hundred lines
+const DEFAULT_CHUNK_CHARS = 64 * 1024;
+
+/**
+ * Read a non-negative number from an environment variable
+ * @param name - Variable name
+ * @param fallback - Value to use when the variable is unset
+ * @returns The parsed number
+ */
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read a list of directories from an environment variable
+ * Entries are separated by the platform path delimiter (':' on POSIX, ';' on Windows)
+ * @param name - Variable name
+ * @param fallback - Directories to use when the variable is unset
+ * @returns Absolute directory paths
+ */
+function readPathList(name: string, fallback: string[]): string[] {
+  const raw = process.env[name];
+  const entries = raw ? raw.split(path.delimiter).filter(entry => entry.trim() !== '') : fallback;
+  return entries.map(entry => path.resolve(entry.trim()));
+}
+
+/**
+ * Read a command-line flag, given as '--name value' or '--name=value'
+ * @param argv - Command-line arguments
+ * @param name - Flag name, without the dashes
+ * @returns The flag's value, or undefined when it is absent
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+        throw new Error(`--${name} needs a value`);
+      }
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the current server configuration
+ * Inside withConfig, the settings it was given replace the configured ones
+ * @returns Configuration with defaults applied
+ */
+export function getConfig(): ServerConfig {
+  return {
+    logDir: process.env.TRANSCRIPTION_TOOLS_LOG_DIR || '/logs',
+    sessionRetentionDays: readNumber('TRANSCRIPTION_TOOLS_SESSION_RETENTION_DAYS', 0),
+    maxSessions: readNumber('TRANSCRIPTION_TOOLS_MAX_SESSIONS', 0),
+    inputRoots: readPathList('TRANSCRIPTION_TOOLS_INPUT_ROOTS', [process.cwd()]),
+    excludedDirs: [],
+    outputDir: path.resolve(process.env.TRANSCRIPTION_TOOLS_OUTPUT_DIR || process.cwd()),
+    maxFileBytes: readNumber('TRANSCRIPTION_TOOLS_MAX_FILE_BYTES', DEFAULT_MAX_FILE_BYTES),
+    maxTextBytes: readNumber('TRANSCRIPTION_TOOLS_MAX_TEXT_BYTES', DEFAULT_MAX_FILE_BYTES),
+    chunkChars: readNumber('TRANSCRIPTION_TOOLS_CHUNK_CHARS', DEFAULT_CHUNK_CHARS),
+    redactionKey: process.env.TRANSCRIPTION_TOOLS_REDACTION_KEY || '',
+    ...overrides.getStore()
+  };
+}
+
+/**
+ * Run work with some settings replaced, for it and everything it starts
+ * @param scope - Settings to replace
+ * @param run - The work
+ * @returns Whatever the work returns
+ */
+export function withConfig<T>(scope: Partial<ServerConfig>, run: () => T): T {
+  return overrides.run(scope, run);
+}
+
+/**
+ * Get the transport settings
+ * Command-line flags take precedence over environment variables
+ * @param argv - Command-line arguments
+ * @returns Transport settings with defaults applied
+ */
+export function getTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+  const transport = readFlag(argv, 'transport') || process.env.TRANSCRIPTION_TOOLS_TRANSPORT || 'stdio';
+  if (!TRANSPORT_KINDS.includes(transport as TransportKind)) {
+    throw new Error(`Transport must be one of ${TRANSPORT_KINDS.join(', ')}, got "${transport}"`);
+  }
+
+  const rawPort = readFlag(argv, 'port');
+  const port = rawPort !== undefined ? Number(rawPort) : readNumber('TRANSCRIPTION_TOOLS_PORT', DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Port must be a whole number from 0 to 65535, got "${rawPort ?? port}"`);
+  }
+
+  return {
+    transport: transport as TransportKind,
+    host: readFlag(argv, 'host') || process.env.TRANSCRIPTION_TOOLS_HOST || DEFAULT_HOST,
+    port,
+    authToken: process.env.TRANSCRIPTION_TOOLS_AUTH_TOKEN || ''
+  };
+}
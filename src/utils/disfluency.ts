@@ -0,0 +1,422 @@
+import { TranscriptSegment } from '../parsers/types.js';
+import { joinText } from './languages.js';
+
+/**
+ * How closely formatted text follows what was said
+ * full keeps everything; clean drops fillers, repeated words and false starts;
+ * edited also drops discourse markers such as "you know" and "I mean"
+ */
+export type VerbatimLevel = 'full' | 'clean' | 'edited';
+
+export const VERBATIM_LEVELS: VerbatimLevel[] = ['full', 'clean', 'edited'];
+
+/**
+ * Words and phrases treated as disfluencies in one language
+ */
+export interface FillerLexicon {
+  fillers: string[]; // hesitation sounds, dropped below full verbatim
+  discourseMarkers: string[]; // dropped in edited verbatim when set off by punctuation
+  weakMarkers: string[]; // markers that are ordinary words elsewhere, dropped only between commas or opening a sentence
+  repairMarkers: string[]; // phrases such as "I mean" after which a speaker restarts an abandoned phrase
+  pronouns: string[]; // subject pronouns, any of which may restart a phrase abandoned at a repair marker
+  repeatableWords: string[]; // function words whose immediate repeats are stutters; other words may be said twice
+}
+
+/**
+ * Tokens removed by disfluency cleanup, per category
+ */
+export interface DisfluencyCounts {
+  fillers: number;
+  repetitions: number;
+  false_starts: number;
+  discourse_markers: number;
+}
+
+/**
+ * Built-in filler lexicons by language code
+ */
+export const FILLER_LEXICONS: Record<string, FillerLexicon> = {
+  en: {
+    fillers: ['um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'hm', 'mm'],
+    discourseMarkers: ['you know', 'i mean', 'sort of', 'kind of', 'basically', 'you see'],
+    weakMarkers: ['like', 'well'],
+    repairMarkers: ['i mean', 'i meant', 'or rather', 'sorry'],
+    pronouns: ['i', 'we', 'you', 'he', 'she', 'it', 'they'],
+    repeatableWords: [
+      'i', 'we', 'you', 'he', 'she', 'it', 'they', 'me', 'us', 'them', 'my', 'our', 'your', 'this',
+      "i'm", "we're", "you're", "it's", "they're", 'the', 'a', 'an', 'to', 'of', 'in', 'on', 'at',
+      'for', 'with', 'from', 'and', 'but', 'or', 'if', 'because', 'is', 'was', 'are', 'were', 'be'
+    ]
+  },
+  es: {
+    fillers: ['eh', 'em', 'ehm', 'mm', 'mmm'],
+    discourseMarkers: ['o sea', 'sabes', 'digamos'],
+    weakMarkers: ['pues', 'bueno', 'este'],
+    repairMarkers: ['o sea', 'digo', 'perdón'],
+    pronouns: ['yo', 'tú', 'él', 'ella', 'usted', 'nosotros', 'nosotras', 'ellos', 'ellas', 'ustedes'],
+    repeatableWords: ['yo', 'el', 'la', 'los', 'las', 'un', 'una', 'de', 'en', 'a', 'y', 'que', 'es', 'se', 'con', 'por', 'para']
+  },
+  fr: {
+    fillers: ['euh', 'heu', 'hum', 'bah', 'ben'],
+    discourseMarkers: ['tu vois', 'vous voyez', 'en fait', 'du coup'],
+    weakMarkers: ['genre', 'bon'],
+    repairMarkers: ['je veux dire', 'enfin', 'pardon'],
+    pronouns: ['je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles'],
+    repeatableWords: ['je', 'tu', 'il', 'elle', 'on', 'ils', 'elles', 'le', 'la', 'les', 'un', 'une', 'de', 'des', 'du', 'et', 'à', 'en', 'que', 'est', "c'est"]
+  },
+  de: {
+    fillers: ['äh', 'ähm', 'öh', 'hm', 'hmm'],
+    discourseMarkers: ['weißt du', 'sozusagen'],
+    weakMarkers: ['halt', 'also'],
+    repairMarkers: ['ich meine', 'beziehungsweise', 'sorry'],
+    pronouns: ['ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr'],
+    repeatableWords: ['ich', 'du', 'er', 'es', 'wir', 'ihr', 'ein', 'eine', 'einen', 'und', 'in', 'zu', 'mit', 'von', 'ist', 'dass']
+  },
+  ja: {
+    fillers: ['えー', 'えーと', 'えっと', 'あー', 'あのー', 'うーん', 'えーっと', 'んー'],
+    discourseMarkers: ['あの', 'まあ'],
+    weakMarkers: ['なんか', 'その'],
+    repairMarkers: [],
+    pronouns: [],
+    repeatableWords: []
+  },
+  zh: {
+    fillers: ['嗯', '呃', '额', '啊', '唔'],
+    discourseMarkers: ['那个'],
+    weakMarkers: ['就是', '然后', '这个'],
+    repairMarkers: [],
+    pronouns: [],
+    repeatableWords: []
+  }
+};
+
+// Longest false start dropped when a speaker restarts a clause
+const MAX_FALSE_START_TOKENS = 8;
+
+/**
+ * Reduce a token to its lower-case word, without surrounding punctuation
+ * @param token - Token as written
+ * @returns The bare word, or an empty string for punctuation
+ */
+function core(token: string): string {
+  return token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Get the punctuation a token ends with
+ * @param token - Token as written
+ * @returns Trailing punctuation, possibly empty
+ */
+function trailing(token: string): string {
+  return (token.match(/[^\p{L}\p{N}]*$/u) || [''])[0].trim();
+}
+
+/**
+ * Whether a token is a word cut off with a hyphen, as in "go-" or "th-"
+ * @param token - Token as written
+ * @returns True for a cut-off word
+ */
+function isFragment(token: string): boolean {
+  return /\p{L}-$/u.test(token);
+}
+
+/**
+ * Whether a token ends a sentence, so the token after it opens one
+ * @param token - Token as written
+ * @returns True for a token ending in a full stop, question or exclamation mark
+ */
+function endsSentence(token: string): boolean {
+  return /[.?!。！？]["')\]]*$/.test(token);
+}
+
+/**
+ * Where an occurrence of a phrase must stand to be accepted: anywhere; set off by punctuation
+ * on either side; or isolated, between commas or opening a sentence
+ */
+type PhraseBounds = 'any' | 'setOff' | 'isolated';
+
+/**
+ * Find where phrases from a list occur in a token sequence
+ * @param tokens - Tokens of the text
+ * @param phrases - Lower-case phrases to find
+ * @param bounds - Where an occurrence must stand to be accepted
+ * @returns Non-overlapping [start, end) token spans, in order
+ */
+function findPhrases(tokens: string[], phrases: string[], bounds: PhraseBounds): Array<[number, number]> {
+  const words = phrases.map(phrase => phrase.split(/\s+/)).sort((a, b) => b.length - a.length);
+  const spans: Array<[number, number]> = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const match = words.find(phrase =>
+      phrase.every((word, k) =>
+        core(tokens[i + k] ?? '') === word && (k === phrase.length - 1 || trailing(tokens[i + k]) === '')
+      )
+    );
+    if (!match) {
+      continue;
+    }
+
+    const end = i + match.length;
+    const before = i > 0 && /(?:,|--|[–—])$/.test(tokens[i - 1]);
+    const after = trailing(tokens[end - 1]) !== '';
+    // The text of a segment may start mid-sentence, so only a capital or caseless script marks its start
+    const opensSentence = i === 0 ? /^[^\p{L}]*[\p{Lu}\p{Lo}]/u.test(tokens[0]) : endsSentence(tokens[i - 1]);
+    const accepted = bounds === 'any'
+      || (bounds === 'setOff' && (before || after))
+      || (bounds === 'isolated' && ((before && after) || opensSentence));
+    if (accepted) {
+      spans.push([i, end]);
+      i = end - 1;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Find false starts: phrases abandoned with a dash or cut-off word and begun again
+ * The restart is looked for past commas, so a phrase set off inside the abandoned part does not
+ * hide it: in "we should, you know, go to the-- we should go" everything before the second "we
+ * should" goes. A cut-off word that the speaker does not restart from is dropped on its own
+ * @param tokens - Tokens of the text
+ * @returns Non-overlapping [start, end) token spans, in order
+ */
+function findFalseStarts(tokens: string[]): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  let clauseStart = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (/(?:--|[–—])$/.test(token) || isFragment(token)) {
+      // Stutters such as "th- the" are repetitions, not false starts
+      if (isFragment(token) && next && core(next).startsWith(core(token))) {
+        continue;
+      }
+
+      // The abandoned part runs from the last word of the clause the speaker starts again from
+      let restart = -1;
+      for (let k = i; k >= clauseStart && next !== undefined; k--) {
+        if (core(tokens[k]) === core(next)) {
+          restart = k;
+          break;
+        }
+      }
+      if (restart !== -1 && i + 1 - restart <= MAX_FALSE_START_TOKENS) {
+        spans.push([restart, i + 1]);
+      } else if (isFragment(token)) {
+        spans.push([i, i + 1]);
+      }
+      clauseStart = i + 1;
+    } else if (/[;:.?!]/.test(trailing(token))) {
+      clauseStart = i + 1;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Find phrases abandoned at a repair marker: in "I was going to, I mean, we went" the speaker
+ * gives up "I was going to" and starts again after "I mean". The abandoned phrase runs back to
+ * the word the restart repeats, or to the last subject pronoun when the restart opens with
+ * another; without either, the marker elaborates rather than repairs and is left alone
+ * @param tokens - Tokens of the text
+ * @param lexicon - Filler lexicon with the repair markers and pronouns of the language
+ * @returns Non-overlapping [start, end) token spans, each ending with its marker, in order
+ */
+function findRepairs(tokens: string[], lexicon: FillerLexicon): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  const isPronoun = (token: string) => lexicon.pronouns.includes(core(token));
+
+  for (const [start, end] of findPhrases(tokens, lexicon.repairMarkers, 'setOff')) {
+    const next = tokens[end];
+    if (next === undefined) {
+      continue;
+    }
+
+    // Look back no further than the start of the clause or the previous repair
+    let clauseStart = spans.length > 0 ? spans[spans.length - 1][1] : 0;
+    for (let k = start - 1; k > clauseStart; k--) {
+      if (/[;:.?!]/.test(trailing(tokens[k - 1]))) {
+        clauseStart = k;
+        break;
+      }
+    }
+
+    for (let k = start - 1; k >= clauseStart && start - k <= MAX_FALSE_START_TOKENS; k--) {
+      if (core(tokens[k]) === core(next) || (isPronoun(tokens[k]) && isPronoun(next))) {
+        spans.push([k, end]);
+        break;
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Find stutters: cut-off words that the next word completes, as in "th- the"
+ * @param tokens - Tokens of the text
+ * @returns Non-overlapping [start, end) token spans, in order
+ */
+function findStutters(tokens: string[]): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    if (isFragment(token) && next && core(next).startsWith(core(token))) {
+      spans.push([i, i + 1]);
+    }
+  });
+  return spans;
+}
+
+/**
+ * Find function words or short phrases opening with one said twice in a row; the earlier
+ * copies are dropped. Other words are left alone, as in "very very" or "bye bye"
+ * @param tokens - Tokens of the text
+ * @param repeatableWords - Function words whose repeats are stutters
+ * @returns Non-overlapping [start, end) token spans, in order
+ */
+function findRepetitions(tokens: string[], repeatableWords: string[]): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    // Longer repeats first, so "I think I think" goes as a phrase
+    let length = 0;
+    for (let n = 3; n >= 1 && length === 0; n--) {
+      if (i + 2 * n > tokens.length) {
+        continue;
+      }
+      const copy = tokens.slice(i, i + n);
+      const repeated = copy.every((token, k) => core(token) !== '' && core(token) === core(tokens[i + n + k]));
+      const unbroken = copy.every((token, k) => trailing(token) === '' || (k === n - 1 && trailing(token) === ','));
+      if (repeated && unbroken && repeatableWords.includes(core(copy[0]))) {
+        length = n;
+      }
+    }
+
+    if (length > 0) {
+      spans.push([i, i + length]);
+      i += length;
+    } else {
+      i++;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Remove token spans, moving sentence punctuation and capitals onto the words that remain
+ * @param tokens - Tokens of the text
+ * @param spans - Non-overlapping [start, end) spans to remove, in order
+ * @returns The remaining tokens
+ */
+function removeSpans(tokens: string[], spans: Array<[number, number]>): string[] {
+  const result: string[] = [];
+  let capitalize = false;
+  let s = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const span = spans[s];
+    if (!span || i < span[0]) {
+      result.push(capitalize ? tokens[i].replace(/\p{L}/u, letter => letter.toUpperCase()) : tokens[i]);
+      capitalize = false;
+      continue;
+    }
+
+    const removed = tokens.slice(span[0], span[1]);
+    const previous = result[result.length - 1];
+    const startsSentence = previous === undefined || endsSentence(previous);
+    if (startsSentence && /^[^\p{L}]*\p{Lu}/u.test(removed[0])) {
+      capitalize = true;
+    }
+
+    // Keep a sentence ending that was attached to a removed word; drop a comma left dangling
+    const punctuation = trailing(removed[removed.length - 1]);
+    const ending = punctuation.match(/[.?!]+/);
+    if (previous !== undefined && ending) {
+      result[result.length - 1] = /[.?!]["')\]]*$/.test(previous) ? previous : previous.replace(/[,;:]$/, '') + ending[0];
+    } else if (previous !== undefined && punctuation.startsWith(',') && previous.endsWith(',')) {
+      result[result.length - 1] = previous.slice(0, -1);
+    }
+
+    i = span[1] - 1;
+    s++;
+  }
+
+  return result;
+}
+
+/**
+ * Clean disfluencies out of a piece of text
+ * @param text - Text to clean
+ * @param level - Verbatim level; full returns the text unchanged
+ * @param lexicon - Filler lexicon of the text's language
+ * @param counts - Counts to add the removed tokens to
+ * @returns The cleaned text
+ */
+export function cleanDisfluencies(
+  text: string,
+  level: VerbatimLevel,
+  lexicon: FillerLexicon,
+  counts: DisfluencyCounts
+): string {
+  if (level === 'full') {
+    return text;
+  }
+
+  // Dashes standing alone belong to the word before them; text without spaces is split after
+  // its commas and stops so that fillers set off by them become tokens of their own
+  let tokens = text.split(/\s+|(?<=[、，。！？])/).filter(token => token !== '').reduce<string[]>((merged, token) => {
+    if (/^[-–—]+$/.test(token) && merged.length > 0) {
+      merged[merged.length - 1] += ` ${token}`;
+    } else {
+      merged.push(token);
+    }
+    return merged;
+  }, []);
+
+  const pass = (category: keyof DisfluencyCounts, spans: Array<[number, number]>) => {
+    counts[category] += spans.reduce((sum, [start, end]) => sum + end - start, 0);
+    tokens = removeSpans(tokens, spans);
+  };
+
+  // Repairs go before discourse markers, which would otherwise take "I mean" and leave the abandoned phrase
+  pass('fillers', findPhrases(tokens, lexicon.fillers, 'any'));
+  pass('false_starts', findRepairs(tokens, lexicon));
+  if (level === 'edited') {
+    pass('discourse_markers', findPhrases(tokens, lexicon.discourseMarkers, 'setOff'));
+    pass('discourse_markers', findPhrases(tokens, lexicon.weakMarkers, 'isolated'));
+  }
+  pass('false_starts', findFalseStarts(tokens));
+  pass('repetitions', findStutters(tokens));
+  pass('repetitions', findRepetitions(tokens, lexicon.repeatableWords));
+
+  return tokens.reduce(joinText, '');
+}
+
+/**
+ * Clean disfluencies out of transcript segments, dropping segments left without words
+ * @param segments - Parsed transcript segments
+ * @param level - Verbatim level
+ * @param lexicon - Filler lexicon of the transcript's language
+ * @param removed - Counts to add to, when a transcript is cleaned in batches
+ * @returns The cleaned segments and the tokens removed per category
+ */
+export function cleanSegments(
+  segments: TranscriptSegment[],
+  level: VerbatimLevel,
+  lexicon: FillerLexicon,
+  removed: DisfluencyCounts = { fillers: 0, repetitions: 0, false_starts: 0, discourse_markers: 0 }
+): { segments: TranscriptSegment[]; removed: DisfluencyCounts } {
+
+  const cleaned = segments
+    .map(segment => ({ ...segment, text: cleanDisfluencies(segment.text, level, lexicon, removed) }))
+    .filter(segment => /[\p{L}\p{N}]/u.test(segment.text));
+
+  return { segments: cleaned, removed };
+}
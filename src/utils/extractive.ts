@@ -0,0 +1,288 @@
+import { isStopword } from './stopwords.js';
+import { countWords, termUnits, SENTENCE_CLOSERS, SENTENCE_MARKS } from './languages.js';
+
+export type RankingMethod = 'textrank' | 'lexrank';
+
+/**
+ * Sentences of a document with their TF-IDF vectors, similarity graph and centrality scores
+ */
+export interface SentenceGraph {
+  sentences: string[];
+  vectors: Map<string, number>[];
+  similarity: number[][];
+  scores: number[]; // centrality, summing to 1
+  edges: number; // sentence pairs linked in the graph
+  iterations: number; // power iterations until the scores converged
+  termWeights: Map<string, number>; // summed TF-IDF weight of each term across the document
+}
+
+/**
+ * Sentences chosen for a summary
+ */
+export interface SentenceSelection {
+  selected: number[]; // sentence indexes in original order
+  achieved: number; // length of the selection in the target metric
+  redundant: number; // sentences skipped as near-duplicates of ones already chosen
+  steps: number; // Maximal Marginal Relevance rounds run
+}
+
+// PageRank damping factor
+const DAMPING = 0.85;
+
+// Power iteration stops once no score moves by more than this, or after MAX_ITERATIONS
+const CONVERGENCE = 1e-6;
+const MAX_ITERATIONS = 100;
+
+// Cosine similarity above which LexRank links two sentences
+const LEXRANK_THRESHOLD = 0.1;
+
+// Balance of relevance against novelty in Maximal Marginal Relevance
+const MMR_LAMBDA = 0.7;
+
+// Sentences this similar to one already chosen are dropped outright
+const REDUNDANCY_LIMIT = 0.8;
+
+// A run of text up to and including its sentence marks and any closing quotes
+const SENTENCE_PATTERN = new RegExp(`[^${SENTENCE_MARKS}]+(?:[${SENTENCE_MARKS}]+[${SENTENCE_CLOSERS}]*|$)`, 'gu');
+
+/**
+ * Find the sentences of a text with their positions
+ * Sentences end at the marks of Latin, CJK and other scripts; a final sentence that lacks
+ * closing punctuation is kept
+ * @param text - Text to split
+ * @returns Trimmed sentences containing at least one letter, with the offset of their first character
+ */
+export function sentenceSpans(text: string): Array<{ text: string; index: number }> {
+  return Array.from(text.matchAll(SENTENCE_PATTERN))
+    .map(match => ({
+      text: match[0].trim(),
+      index: (match.index ?? 0) + (match[0].length - match[0].trimStart().length)
+    }))
+    .filter(span => /\p{L}/u.test(span.text));
+}
+
+/**
+ * Split text into sentences, keeping a final sentence that lacks closing punctuation
+ * @param text - Text to split
+ * @returns Trimmed, non-empty sentences
+ */
+export function splitSentences(text: string): string[] {
+  return sentenceSpans(text).map(span => span.text);
+}
+
+/**
+ * Extract the content terms of a sentence
+ * @param sentence - Sentence text
+ * @param language - Language code, choosing the stopwords and how unspaced text is split
+ * @returns Lower-case words, without apostrophes, stopwords or single letters
+ */
+export function contentTerms(sentence: string, language = 'en'): string[] {
+  return (sentence.toLowerCase().match(/\p{L}[\p{L}\p{N}'’]*/gu) || [])
+    .flatMap(word => termUnits(word.replace(/['’]/g, ''), language))
+    .filter(word => word.length > 1 && !isStopword(word, language));
+}
+
+/**
+ * Measure the length of a sentence
+ * @param sentence - Sentence text
+ * @param metric - Count characters or words; each character of an unspaced script is a word
+ * @returns Length in the given metric
+ */
+export function measure(sentence: string, metric: 'chars' | 'words'): number {
+  return metric === 'chars' ? sentence.length : countWords(sentence);
+}
+
+/**
+ * Cosine similarity of two sparse vectors
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity between 0 and 1
+ */
+export function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) ?? 0);
+  }
+  if (dot === 0) {
+    return 0;
+  }
+
+  const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+/**
+ * Build TF-IDF vectors, treating each sentence as a document
+ * @param sentences - Sentences of the text
+ * @param language - Language code of the text
+ * @returns One vector per sentence
+ */
+function tfIdfVectors(sentences: string[], language: string): Map<string, number>[] {
+  const termCounts = sentences.map(sentence => {
+    const counts = new Map<string, number>();
+    for (const term of contentTerms(sentence, language)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Smoothed IDF, so a term found in every sentence still counts a little
+  const n = sentences.length;
+  return termCounts.map(counts => {
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      vector.set(term, count * (Math.log((n + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1));
+    }
+    return vector;
+  });
+}
+
+/**
+ * Score graph nodes by PageRank power iteration over a weighted adjacency matrix
+ * @param weights - Symmetric edge weights, zero on the diagonal
+ * @returns Scores summing to 1 and the number of iterations run
+ */
+function powerIteration(weights: number[][]): { scores: number[]; iterations: number } {
+  const n = weights.length;
+  const outWeight = weights.map(row => row.reduce((sum, w) => sum + w, 0));
+  let scores = new Array<number>(n).fill(1 / n);
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+
+    // Sentences linked to nothing spread their score evenly
+    const dangling = scores.reduce((sum, s, j) => outWeight[j] === 0 ? sum + s : sum, 0);
+    const next = scores.map((_, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) {
+          incoming += scores[j] * weights[j][i] / outWeight[j];
+        }
+      }
+      return (1 - DAMPING) / n + DAMPING * (incoming + dangling / n);
+    });
+
+    const change = Math.max(...next.map((s, i) => Math.abs(s - scores[i])));
+    scores = next;
+    if (change < CONVERGENCE) {
+      break;
+    }
+  }
+
+  return { scores, iterations };
+}
+
+/**
+ * Build the sentence similarity graph and rank sentences by centrality
+ * TextRank weights edges by similarity; LexRank links sentences above a similarity threshold
+ * @param sentences - Sentences of the text
+ * @param method - Ranking method
+ * @param language - Language code of the text
+ * @returns The ranked sentence graph
+ */
+export function rankSentences(sentences: string[], method: RankingMethod = 'textrank', language = 'en'): SentenceGraph {
+  const vectors = tfIdfVectors(sentences, language);
+  const n = sentences.length;
+
+  const similarity = vectors.map(() => new Array<number>(n).fill(0));
+  let edges = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const value = cosine(vectors[i], vectors[j]);
+      similarity[i][j] = similarity[j][i] = value;
+      if (method === 'lexrank' ? value > LEXRANK_THRESHOLD : value > 0) {
+        edges++;
+      }
+    }
+  }
+
+  const weights = method === 'lexrank'
+    ? similarity.map(row => row.map(value => value > LEXRANK_THRESHOLD ? 1 : 0))
+    : similarity;
+  const { scores, iterations } = n > 0 ? powerIteration(weights) : { scores: [], iterations: 0 };
+
+  const termWeights = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) {
+      termWeights.set(term, (termWeights.get(term) ?? 0) + weight);
+    }
+  }
+
+  return { sentences, vectors, similarity, scores, edges, iterations, termWeights };
+}
+
+/**
+ * Select central, non-redundant sentences within a length budget using Maximal Marginal Relevance
+ * Sentences too long for the remaining budget are passed over in favour of shorter ones, and
+ * sentences without content words ("Great.", "Thanks everyone.") are never chosen
+ * @param graph - Ranked sentence graph
+ * @param targetLength - Length budget in the target metric
+ * @param metric - Whether the budget is counted in characters or words
+ * @returns The selection, in original order
+ */
+export function selectByMmr(graph: SentenceGraph, targetLength: number, metric: 'chars' | 'words'): SentenceSelection {
+  const maxScore = Math.max(0, ...graph.scores);
+  const relevance = graph.scores.map(score => maxScore > 0 ? score / maxScore : 0);
+  const remaining = new Set(graph.sentences.map((_, i) => i).filter(i => graph.vectors[i].size > 0));
+  const selected: number[] = [];
+  let achieved = 0;
+  let redundant = 0;
+  let steps = 0;
+
+  while (remaining.size > 0) {
+    steps++;
+    let best = -1;
+    let bestValue = -Infinity;
+
+    for (const i of remaining) {
+      const overlap = Math.max(0, ...selected.map(j => graph.similarity[i][j]));
+      if (overlap > REDUNDANCY_LIMIT) {
+        remaining.delete(i);
+        redundant++;
+        continue;
+      }
+      if (achieved + measure(graph.sentences[i], metric) > targetLength && selected.length > 0) {
+        continue;
+      }
+
+      const value = MMR_LAMBDA * relevance[i] - (1 - MMR_LAMBDA) * overlap;
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    }
+
+    if (best === -1) {
+      break;
+    }
+
+    // The first pick is always kept, even if it alone exceeds the budget
+    selected.push(best);
+    remaining.delete(best);
+    achieved += measure(graph.sentences[best], metric);
+  }
+
+  return { selected: selected.sort((a, b) => a - b), achieved, redundant, steps };
+}
+
+/**
+ * List the terms carrying the most TF-IDF weight across the document
+ * @param graph - Ranked sentence graph
+ * @param count - Number of terms to return
+ * @returns Terms, heaviest first
+ */
+export function topTerms(graph: SentenceGraph, count: number): string[] {
+  return Array.from(graph.termWeights)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([term]) => term);
+}
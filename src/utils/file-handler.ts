@@ -1,10 +1,63 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from './config.js';
+import { checkpoint, ProgressContext } from './progress.js';
+import { readText, TextSource } from './chunks.js';
 
 const readFileAsync = promisify(fs.readFile);
+const readdirAsync = promisify(fs.readdir);
 const writeFileAsync = promisify(fs.writeFile);
+const appendFileAsync = promisify(fs.appendFile);
 const mkdirAsync = promisify(fs.mkdir);
+const realpathAsync = promisify(fs.realpath);
+const statAsync = promisify(fs.stat);
+const lstatAsync = promisify(fs.lstat);
+
+/**
+ * Check whether a path lies inside a directory
+ * @param root - Absolute directory path
+ * @param target - Absolute path to check
+ * @returns True if target is the directory itself or anything below it
+ */
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve symbolic links in a directory path, skipping directories that do not exist
+ * @param dirs - Absolute directory paths
+ * @returns Real paths of the directories that exist
+ */
+async function realDirectories(dirs: string[]): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const dir of dirs) {
+    try {
+      resolved.push(await realpathAsync(dir));
+    } catch (error) {
+      // A missing root cannot contain anything
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Check whether a path may be read as input
+ * @param target - Absolute path to check
+ * @param inputRoots - Directories input may be read from
+ * @param workspace - Output workspace, readable even inside an excluded directory
+ * @param excludedDirs - Directories below the input roots that may not be read from
+ * @returns True if target is in the workspace, or in an input root outside the excluded directories
+ */
+function isReadable(target: string, inputRoots: string[], workspace: string | undefined, excludedDirs: string[]): boolean {
+  if (workspace !== undefined && isWithin(workspace, target)) {
+    return true;
+  }
+  return inputRoots.some(root => isWithin(root, target)) && !excludedDirs.some(dir => isWithin(dir, target));
+}
 
 /**
  * Utility class for handling file operations
@@ -40,24 +93,298 @@ export class FileHandler {
   }
 
   /**
-   * Check if text content is a file path and read the file if it is
+   * Create an empty file, creating directories if needed, unless something is already at the path
+   * @param filePath - Path to the file
+   * @returns Promise resolving to true if the file was created, or false if the path was taken
+   */
+  static async createNewFile(filePath: string): Promise<boolean> {
+    try {
+      await mkdirAsync(path.dirname(filePath), { recursive: true });
+      await writeFileAsync(filePath, '', { encoding: 'utf8', flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw new Error(`Failed to create file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Append text to a file, creating the file and its directories if needed
+   * @param filePath - Path to the file
+   * @param content - Content to append
+   * @returns Promise resolving when the text is written
+   */
+  static async appendTextFile(filePath: string, content: string): Promise<void> {
+    try {
+      await mkdirAsync(path.dirname(filePath), { recursive: true });
+      await appendFileAsync(filePath, content, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to append to file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Resolve a caller-supplied path inside the sandbox
+   * Relative paths are taken from the first input root, and the path must stay inside an
+   * input root or the output workspace after symbolic links are resolved. Excluded
+   * directories, such as other connections' folders, are outside the sandbox
+   * @param requestedPath - Path supplied by a tool caller
+   * @param kind - What the path should name, for error messages
+   * @returns Promise resolving to the real path and its file system stats
+   */
+  private static async resolveSandboxedPath(
+    requestedPath: string,
+    kind: 'file' | 'directory'
+  ): Promise<{ realPath: string; stats: fs.Stats }> {
+    const { inputRoots, outputDir, excludedDirs } = getConfig();
+    const requested = path.resolve(inputRoots[0] ?? outputDir, requestedPath);
+
+    if (!isReadable(requested, inputRoots, outputDir, excludedDirs)) {
+      throw new McpError(ErrorCode.InvalidParams, `Input path ${requestedPath} is outside the allowed input directories`);
+    }
+
+    let realPath: string;
+    try {
+      realPath = await realpathAsync(requested);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Input ${kind} not found: ${requestedPath}`);
+    }
+
+    const [realWorkspace] = await realDirectories([outputDir]);
+    const realRoots = await realDirectories(inputRoots);
+    const realExcluded = await realDirectories(excludedDirs);
+    if (!isReadable(realPath, realRoots, realWorkspace, realExcluded)) {
+      throw new McpError(ErrorCode.InvalidParams, `Input path ${requestedPath} leaves the allowed input directories through a symbolic link`);
+    }
+
+    return { realPath, stats: await statAsync(realPath) };
+  }
+
+  /**
+   * Resolve a caller-supplied input path inside the sandbox
+   * Relative paths are taken from the first input root. The path must stay inside an
+   * input root or the output workspace after symbolic links are resolved, and the file
+   * must be within the size limit.
+   * @param filePath - Path supplied by a tool caller
+   * @returns Promise resolving to the real path of the file
+   */
+  static async resolveInputPath(filePath: string): Promise<string> {
+    const { maxFileBytes } = getConfig();
+    const { realPath, stats } = await FileHandler.resolveSandboxedPath(filePath, 'file');
+
+    if (!stats.isFile()) {
+      throw new McpError(ErrorCode.InvalidParams, `Input path ${filePath} is not a file`);
+    }
+    if (maxFileBytes > 0 && stats.size > maxFileBytes) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Input file ${filePath} is ${stats.size} bytes, over the ${maxFileBytes} byte limit`
+      );
+    }
+
+    return realPath;
+  }
+
+  /**
+   * Resolve a caller-supplied input directory inside the sandbox
+   * @param dirPath - Path supplied by a tool caller
+   * @returns Promise resolving to the real path of the directory
+   */
+  static async resolveInputDirectory(dirPath: string): Promise<string> {
+    const { realPath, stats } = await FileHandler.resolveSandboxedPath(dirPath, 'directory');
+
+    if (!stats.isDirectory()) {
+      throw new McpError(ErrorCode.InvalidParams, `Input path ${dirPath} is not a directory`);
+    }
+
+    return realPath;
+  }
+
+  /**
+   * List the files in an input directory with the given extensions
+   * Symbolic links are not followed, so the listing cannot leave the directory, and
+   * excluded directories are skipped
+   * @param dirPath - Real path of a directory inside the sandbox
+   * @param extensions - File extensions to include, such as '.txt', or null for every file; case is ignored
+   * @param recursive - Whether to descend into subdirectories
+   * @returns Promise resolving to the files' paths, relative to the directory, with their size
+   * and modification time, in path order
+   */
+  static async listInputFiles(
+    dirPath: string,
+    extensions: string[] | null,
+    recursive = true
+  ): Promise<Array<{ relativePath: string; size: number; mtimeMs: number }>> {
+    const wanted = extensions && extensions.map(extension => extension.toLowerCase());
+    const files: Array<{ relativePath: string; size: number; mtimeMs: number }> = [];
+    const { outputDir, excludedDirs } = getConfig();
+    const [workspace] = await realDirectories([outputDir]);
+    const excluded = await realDirectories(excludedDirs);
+    const readable = (target: string) => isReadable(target, [dirPath], workspace, excluded);
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await readdirAsync(path.join(dirPath, relativeDir), { withFileTypes: true });
+      for (const entry of entries) {
+        const relativePath = path.join(relativeDir, entry.name);
+        const fullPath = path.join(dirPath, relativePath);
+        if (entry.isDirectory() && recursive) {
+          // An excluded directory is only entered on the way to the workspace inside it
+          if (readable(fullPath) || (workspace !== undefined && isWithin(fullPath, workspace))) {
+            await walk(relativePath);
+          }
+        } else if (entry.isFile() && readable(fullPath) && (!wanted || wanted.includes(path.extname(entry.name).toLowerCase()))) {
+          const { size, mtimeMs } = await statAsync(fullPath);
+          files.push({ relativePath, size, mtimeMs });
+        }
+      }
+    };
+
+    try {
+      await walk('');
+    } catch (error) {
+      throw new Error(`Failed to list directory ${dirPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  /**
+   * Resolve the path of an output file inside the output workspace, creating its directory
+   * @param fileName - File name, relative to the workspace
+   * @returns Promise resolving to the absolute output path
+   */
+  static async resolveOutputPath(fileName: string): Promise<string> {
+    const { outputDir } = getConfig();
+    const target = path.resolve(outputDir, fileName);
+
+    if (!isWithin(outputDir, target)) {
+      throw new McpError(ErrorCode.InvalidParams, `Output path ${fileName} is outside the output directory`);
+    }
+
+    // The folder may be a link out of the workspace, and so may an existing file
+    await mkdirAsync(path.dirname(target), { recursive: true });
+    const [realWorkspace, realDir] = await realDirectories([outputDir, path.dirname(target)]);
+    let isLink = false;
+    try {
+      isLink = (await lstatAsync(target)).isSymbolicLink();
+    } catch (error) {
+      // Nothing there yet
+    }
+    if (isLink || !isWithin(realWorkspace, realDir)) {
+      throw new McpError(ErrorCode.InvalidParams, `Output path ${fileName} leaves the output directory through a symbolic link`);
+    }
+
+    return target;
+  }
+
+  /**
+   * Stream a file as runs of whole lines, without holding more than one chunk in memory
+   * Reading stops with an error as soon as the file grows past the size limit
+   * @param filePath - Path to the file
+   * @param chunkChars - Chunk size in characters, 0 for a single chunk
+   * @returns Async iterator over chunks that join back into the file contents
+   */
+  static async *streamLines(filePath: string, chunkChars: number): AsyncGenerator<string> {
+    const { maxFileBytes } = getConfig();
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    let buffered = '';
+
+    for await (const data of stream) {
+      if (maxFileBytes > 0 && stream.bytesRead > maxFileBytes) {
+        throw new McpError(ErrorCode.InvalidParams, `Input file ${filePath} is over the ${maxFileBytes} byte limit`);
+      }
+
+      buffered += data;
+      if (chunkChars > 0 && buffered.length >= chunkChars) {
+        // Hold back the unfinished last line for the next chunk
+        const cut = buffered.lastIndexOf('\n') + 1;
+        if (cut > 0) {
+          yield buffered.slice(0, cut);
+          buffered = buffered.slice(cut);
+        }
+      }
+    }
+
+    if (buffered !== '') {
+      yield buffered;
+    }
+  }
+
+  /**
+   * Open a caller-supplied input file through the sandbox for reading in chunks
+   * The path and size are checked before this resolves; the returned chunks report progress as
+   * they are read and stop if the run is cancelled
+   * @param filePath - Path supplied by a tool caller
+   * @param progress - Progress context of the run
+   * @returns Promise resolving to an async iterator over runs of whole lines
+   */
+  static async openInputFile(filePath: string, progress: ProgressContext = {}): Promise<AsyncGenerator<string>> {
+    const realPath = await FileHandler.resolveInputPath(filePath);
+    const { size } = await statAsync(realPath);
+
+    async function* read(): AsyncGenerator<string> {
+      let bytesRead = 0;
+      try {
+        for await (const chunk of FileHandler.streamLines(realPath, getConfig().chunkChars)) {
+          bytesRead += Buffer.byteLength(chunk);
+          yield chunk;
+          await checkpoint(progress, Math.min(bytesRead, size), size);
+        }
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new Error(`Failed to read file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return read();
+  }
+
+  /**
+   * Check if text content is a file path and open the file for reading in chunks if it is
+   * File paths are subject to the input sandbox, and inline text to its own size limit
    * @param content - Text content or file path
    * @param isFilePath - Whether the content is a file path
-   * @returns Promise resolving to the text content
+   * @param progress - Progress context of the run, for reading files
+   * @returns Promise resolving to the inline text, or the file's chunks
    */
-  static async resolveTextContent(content: string, isFilePath: boolean): Promise<string> {
+  static async resolveTextSource(content: string, isFilePath: boolean, progress: ProgressContext = {}): Promise<TextSource> {
     if (isFilePath) {
-      return await FileHandler.readTextFile(content);
+      return await FileHandler.openInputFile(content, progress);
+    }
+
+    const { maxTextBytes } = getConfig();
+    const bytes = Buffer.byteLength(content);
+    if (maxTextBytes > 0 && bytes > maxTextBytes) {
+      throw new McpError(ErrorCode.InvalidParams, `Input text is ${bytes} bytes, over the ${maxTextBytes} byte limit`);
     }
     return content;
   }
 
+  /**
+   * Check if text content is a file path and read the file whole if it is
+   * File paths are subject to the input sandbox. A file read whole is held to the inline text
+   * size limit as well, since it is kept in memory like inline text
+   * @param content - Text content or file path
+   * @param isFilePath - Whether the content is a file path
+   * @param progress - Progress context of the run, for reading files
+   * @returns Promise resolving to the text content
+   */
+  static async resolveTextContent(content: string, isFilePath: boolean, progress: ProgressContext = {}): Promise<string> {
+    return await readText(await FileHandler.resolveTextSource(content, isFilePath, progress), getConfig().maxTextBytes);
+  }
+
   /**
    * Generate a timestamped session ID
-   * @returns A session ID based on current timestamp
+   * A millisecond timestamp plus a random suffix keeps IDs sortable and collision-free
+   * @returns A session ID such as 20241206143022123-9f2c1a
    */
   static generateSessionId(): string {
     const now = new Date();
-    return now.toISOString().replace(/[-:.]/g, '').slice(0, 14);
+    const timestamp = now.toISOString().replace(/[-:.TZ]/g, '');
+    return `${timestamp}-${crypto.randomBytes(3).toString('hex')}`;
   }
 }
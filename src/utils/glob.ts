@@ -0,0 +1,83 @@
+/**
+ * A glob pattern split at its first wildcard
+ */
+export interface SplitGlob {
+  base: string; // directory the pattern starts from, '.' when it starts with a wildcard
+  pattern: string; // the rest of the pattern, matched against paths below the base
+  recursive: boolean; // whether the pattern reaches into subdirectories
+}
+
+// Characters that make a path segment a pattern
+const WILDCARD = /[*?[{]/;
+
+/**
+ * Split a glob pattern into the literal directory it starts from and the pattern below it
+ * @param glob - Pattern such as 'season1/*.srt', with '/' between segments
+ * @returns The base directory and the remaining pattern
+ */
+export function splitGlob(glob: string): SplitGlob {
+  const segments = glob.split('/');
+  const first = segments.findIndex(segment => WILDCARD.test(segment));
+  if (first === -1) {
+    throw new Error(`Glob ${glob} has no wildcard; pass a directory instead`);
+  }
+
+  const pattern = segments.slice(first).join('/');
+  return {
+    base: first === 0 ? '.' : segments.slice(0, first).join('/') || '/',
+    pattern,
+    recursive: pattern.includes('/') || pattern.includes('**')
+  };
+}
+
+/**
+ * Compile a glob pattern into a regular expression over '/'-separated relative paths
+ * Supports * and ? within a segment, ** across segments, [abc] and [!abc] classes and
+ * {a,b} alternatives
+ * @param pattern - Glob pattern
+ * @returns Regular expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // ** matches any number of whole directories, including none
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:[^/]*/)*' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const negated = pattern[i + 1] === '!';
+      const members = pattern.slice(negated ? i + 2 : i + 1, close).replace(/[\\\]^]/g, '\\$&');
+      source += negated ? `[^/${members}]` : `[${members}]`;
+      i = close;
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  if (braces > 0) {
+    throw new Error(`Unclosed { in glob ${pattern}`);
+  }
+  return new RegExp(`^${source}$`);
+}
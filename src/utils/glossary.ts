@@ -0,0 +1,240 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { FileHandler } from './file-handler.js';
+
+/**
+ * A compiled repair rule, either built in or loaded from a glossary
+ */
+export interface RepairRule {
+  pattern: RegExp; // always global
+  replacement: string;
+  confidence: number;
+  preserveCase: boolean;
+  source: string; // 'built-in' or the glossary file path
+  description: string;
+}
+
+/**
+ * A literal term entry in a glossary file
+ */
+interface GlossaryTermEntry {
+  term: string; // the correct spelling
+  variants: string[]; // misrecognitions to replace
+  confidence?: number;
+  case_sensitive?: boolean;
+  whole_word?: boolean;
+  preserve_case?: boolean;
+}
+
+/**
+ * A regular expression entry in a glossary file
+ */
+interface GlossaryRuleEntry {
+  pattern: string;
+  replacement: string;
+  flags?: string;
+  confidence?: number;
+  whole_word?: boolean;
+  preserve_case?: boolean;
+}
+
+/**
+ * Shape of a glossary file (JSON or YAML)
+ */
+interface GlossaryFile {
+  default_confidence?: number;
+  terms?: GlossaryTermEntry[];
+  rules?: GlossaryRuleEntry[];
+}
+
+// Environment variable naming a glossary applied to every repair
+export const DEFAULT_GLOSSARY_ENV = 'TRANSCRIPTION_TOOLS_GLOSSARY';
+
+/**
+ * Escape a literal string for use in a regular expression
+ * @param value - Literal text
+ * @returns Escaped pattern source
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate a confidence value from a glossary file
+ * @param value - Raw value
+ * @param fallback - Value to use when none is given
+ * @param where - Description of the entry for error messages
+ * @returns Confidence as a percentage
+ */
+function readConfidence(value: unknown, fallback: number, where: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || value < 0 || value > 100) {
+    throw new Error(`${where}: confidence must be a number between 0 and 100`);
+  }
+  return value;
+}
+
+/**
+ * Apply the letter case of the matched text to a replacement
+ * Handles all-upper, all-lower and capitalized matches; anything else keeps the replacement as written
+ * @param match - Text that was matched
+ * @param replacement - Replacement text
+ * @returns Replacement with matching case
+ */
+export function applyCasePattern(match: string, replacement: string): string {
+  const letters = match.replace(/[^\p{L}]/gu, '');
+
+  if (letters === '') {
+    return replacement;
+  }
+  if (letters.length > 1 && letters === letters.toUpperCase()) {
+    return replacement.toUpperCase();
+  }
+  if (letters === letters.toLowerCase()) {
+    return replacement.toLowerCase();
+  }
+  if (letters[0] !== letters[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase();
+  }
+  return replacement;
+}
+
+/**
+ * Expand `$1`, `$<name>`, `$&` and `$$` references in a replacement string
+ * @param replacement - Replacement template
+ * @param match - Regular expression match
+ * @returns Expanded replacement
+ */
+export function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|<([^>]+)>|\d{1,2})/g, (token, ref: string, name?: string) => {
+    if (ref === '$') {
+      return '$';
+    }
+    if (ref === '&') {
+      return match[0];
+    }
+    if (name !== undefined) {
+      return match.groups?.[name] ?? '';
+    }
+    const index = parseInt(ref, 10);
+    return index < match.length ? match[index] ?? '' : token;
+  });
+}
+
+/**
+ * Compile the entries of a parsed glossary file into repair rules
+ * @param glossary - Parsed glossary content
+ * @param source - Where the glossary came from, recorded as evidence
+ * @returns Array of compiled rules
+ */
+export function compileGlossary(glossary: GlossaryFile, source: string): RepairRule[] {
+  if (!glossary || typeof glossary !== 'object') {
+    throw new Error('Glossary must be an object with "terms" and/or "rules"');
+  }
+
+  const defaultConfidence = readConfidence(glossary.default_confidence, 90, 'default_confidence');
+  const rules: RepairRule[] = [];
+
+  (glossary.terms || []).forEach((entry, i) => {
+    const where = `terms[${i}]`;
+    if (typeof entry.term !== 'string' || !Array.isArray(entry.variants)) {
+      throw new Error(`${where}: "term" and "variants" are required`);
+    }
+
+    const flags = entry.case_sensitive ? 'gu' : 'giu';
+    const wholeWord = entry.whole_word !== false;
+
+    for (const variant of entry.variants) {
+      // Spaces in a variant match any run of whitespace
+      let patternSource = escapeRegExp(variant.trim()).replace(/\s+/g, '\\s+');
+      if (wholeWord) {
+        patternSource = `(?<![\\p{L}\\p{N}_])${patternSource}(?![\\p{L}\\p{N}_])`;
+      }
+
+      rules.push({
+        pattern: new RegExp(patternSource, flags),
+        replacement: entry.term,
+        confidence: readConfidence(entry.confidence, defaultConfidence, where),
+        preserveCase: entry.preserve_case === true,
+        source,
+        description: `Glossary term "${entry.term}" (variant "${variant}")`
+      });
+    }
+  });
+
+  (glossary.rules || []).forEach((entry, i) => {
+    const where = `rules[${i}]`;
+    if (typeof entry.pattern !== 'string' || typeof entry.replacement !== 'string') {
+      throw new Error(`${where}: "pattern" and "replacement" are required`);
+    }
+
+    const flags = (entry.flags ?? 'i').replace(/g/g, '') + 'g';
+    const patternSource = entry.whole_word ? `\\b(?:${entry.pattern})\\b` : entry.pattern;
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(patternSource, flags);
+    } catch (error) {
+      throw new Error(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    rules.push({
+      pattern,
+      replacement: entry.replacement,
+      confidence: readConfidence(entry.confidence, defaultConfidence, where),
+      preserveCase: entry.preserve_case !== false,
+      source,
+      description: `Glossary rule /${entry.pattern}/`
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Load and compile a glossary file
+ * Files ending in .yaml or .yml are read as YAML, anything else as JSON
+ * @param filePath - Path to the glossary file
+ * @returns Promise resolving to the compiled rules
+ */
+export async function loadGlossary(filePath: string): Promise<RepairRule[]> {
+  const content = await FileHandler.readTextFile(filePath);
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    const parsed = extension === '.yaml' || extension === '.yml'
+      ? parseYaml(content)
+      : JSON.parse(content);
+    return compileGlossary(parsed, filePath);
+  } catch (error) {
+    throw new Error(`Invalid glossary ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load the glossary for a run: the caller's own, or else the server default
+ * Only the caller's path goes through the input sandbox; the operator's is trusted
+ * @param glossaryPath - Glossary supplied by the caller, if any
+ * @returns Promise resolving to the compiled rules, empty when there is no glossary
+ */
+export async function loadSelectedGlossary(glossaryPath?: string): Promise<RepairRule[]> {
+  const selectedGlossary = glossaryPath
+    ? await FileHandler.resolveInputPath(glossaryPath)
+    : process.env[DEFAULT_GLOSSARY_ENV];
+  return selectedGlossary ? await loadGlossary(selectedGlossary) : [];
+}
+
+/**
+ * List the capitalized names a glossary spells out, for restoring their capitals
+ * @param rules - Compiled glossary rules
+ * @returns Distinct replacements that are plain text containing a capital letter
+ */
+export function properNouns(rules: RepairRule[]): string[] {
+  return Array.from(new Set(
+    rules
+      .filter(rule => rule.source !== 'built-in' && !rule.replacement.includes('$') && /\p{Lu}/u.test(rule.replacement))
+      .map(rule => rule.replacement)
+  ));
+}
@@ -0,0 +1,101 @@
+import { isStopword } from './stopwords.js';
+import { termUnits } from './languages.js';
+
+/**
+ * A key phrase with its RAKE score and how often it occurs
+ */
+export interface KeyPhrase {
+  phrase: string;
+  score: number;
+  occurrences: number;
+}
+
+// Longest run of content words kept as one phrase
+const MAX_PHRASE_WORDS = 3;
+
+/**
+ * Split text into candidate phrases: runs of content words between stopwords and punctuation
+ * In text written without spaces, each term found in a run of letters is a phrase of its own
+ * @param text - Text to scan
+ * @param language - Language code of the text
+ * @returns Candidate phrases as lower-case word lists
+ */
+function candidatePhrases(text: string, language: string): string[][] {
+  const phrases: string[][] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    // Over-long runs are cut into phrases of at most MAX_PHRASE_WORDS words
+    for (let i = 0; i < current.length; i += MAX_PHRASE_WORDS) {
+      phrases.push(current.slice(i, i + MAX_PHRASE_WORDS));
+    }
+    current = [];
+  };
+
+  for (const match of text.matchAll(/(\p{L}[\p{L}\p{N}'’-]*)|([^\p{L}\s]+)/gu)) {
+    const word = match[1]?.toLowerCase().replace(/['’]/g, '');
+    const units = word ? termUnits(word, language) : [];
+    if (word && (units.length !== 1 || units[0] !== word)) {
+      // A run of unspaced text holds several terms
+      flush();
+      phrases.push(...units.filter(unit => unit.length > 1 && !isStopword(unit, language)).map(unit => [unit]));
+    } else if (!word || word.length < 2 || isStopword(word, language)) {
+      flush();
+    } else {
+      current.push(word);
+    }
+  }
+  flush();
+
+  return phrases;
+}
+
+/**
+ * Rank the key phrases of a text with RAKE (Rapid Automatic Keyword Extraction)
+ * Each word scores its degree over its frequency, scaled up for words used often so that
+ * recurring topics outrank one-off word runs; a phrase sums its words and gains from repetition
+ * @param text - Text to analyse
+ * @param limit - Maximum number of phrases to return
+ * @param language - Language code of the text
+ * @returns Key phrases, best first
+ */
+export function extractKeyPhrases(text: string, limit = Infinity, language = 'en'): KeyPhrase[] {
+  const phrases = candidatePhrases(text, language);
+
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const phrase of phrases) {
+    for (const word of phrase) {
+      frequency.set(word, (frequency.get(word) ?? 0) + 1);
+      degree.set(word, (degree.get(word) ?? 0) + phrase.length);
+    }
+  }
+
+  const occurrences = new Map<string, { words: string[]; count: number }>();
+  for (const phrase of phrases) {
+    const key = phrase.join(' ');
+    const entry = occurrences.get(key) ?? { words: phrase, count: 0 };
+    entry.count++;
+    occurrences.set(key, entry);
+  }
+
+  const ranked = Array.from(occurrences, ([phrase, { words, count }]) => {
+    const wordScores = words.reduce((sum, word) => {
+      const wordFrequency = frequency.get(word) ?? 1;
+      return sum + (degree.get(word) ?? 0) / wordFrequency * Math.log(1 + wordFrequency);
+    }, 0);
+    return { phrase, score: Math.round(wordScores * (1 + Math.log(count)) * 100) / 100, occurrences: count };
+  });
+
+  ranked.sort((a, b) => b.score - a.score || b.occurrences - a.occurrences || a.phrase.localeCompare(b.phrase));
+  return ranked.slice(0, limit);
+}
+
+/**
+ * Capitalize each word of a phrase for use as a heading
+ * @param phrase - Lower-case phrase
+ * @returns Title-cased phrase
+ */
+export function toTitleCase(phrase: string): string {
+  return phrase.replace(/(^|\s)(\p{L})/gu, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
@@ -0,0 +1,184 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { countStopwords, isStopword } from './stopwords.js';
+
+/**
+ * How a supported language is written and spoken
+ */
+export interface LanguageProfile {
+  name: string;
+  spaced: boolean; // whether words are separated by spaces
+  speakingRate: number; // words per minute, or characters per minute when not spaced
+  fullStop: string; // mark that ends a restored sentence
+  questionMark: string; // mark that ends a restored question
+}
+
+/**
+ * Supported languages by code
+ */
+export const LANGUAGES: Record<string, LanguageProfile> = {
+  en: { name: 'English', spaced: true, speakingRate: 150, fullStop: '.', questionMark: '?' },
+  es: { name: 'Spanish', spaced: true, speakingRate: 170, fullStop: '.', questionMark: '?' },
+  fr: { name: 'French', spaced: true, speakingRate: 160, fullStop: '.', questionMark: '?' },
+  de: { name: 'German', spaced: true, speakingRate: 130, fullStop: '.', questionMark: '?' },
+  ja: { name: 'Japanese', spaced: false, speakingRate: 350, fullStop: '。', questionMark: '？' },
+  zh: { name: 'Chinese', spaced: false, speakingRate: 250, fullStop: '。', questionMark: '？' }
+};
+
+// Language codes accepted by the language parameters, including detection
+export const LANGUAGE_OPTIONS = ['auto', ...Object.keys(LANGUAGES)];
+
+// Marks that end a sentence, in Latin, CJK, Arabic and Devanagari scripts
+export const SENTENCE_MARKS = '.!?。！？｡؟।॥';
+
+// Quotes and brackets that may close a sentence after its mark
+export const SENTENCE_CLOSERS = '"\'”’」』）)\\]';
+
+// Letters of scripts written without spaces between words
+const UNSPACED_LETTER = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}ー';
+
+// Full-width punctuation used with those scripts
+const CJK_PUNCTUATION = '\\u3000-\\u303f\\uff01-\\uff0f\\uff1a-\\uff20\\uff5b-\\uff65';
+
+const UNSPACED_PATTERN = new RegExp(`[${UNSPACED_LETTER}${CJK_PUNCTUATION}]`, 'gu');
+const UNSPACED_END = new RegExp(`[${UNSPACED_LETTER}${CJK_PUNCTUATION}]$`, 'u');
+const UNSPACED_START = new RegExp(`^[${UNSPACED_LETTER}${CJK_PUNCTUATION}]`, 'u');
+const SENTENCE_END = new RegExp(`[${SENTENCE_MARKS}][${SENTENCE_CLOSERS}]*$`, 'u');
+
+// Text sampled when detecting the language of a long transcript
+const DETECTION_SAMPLE_CHARS = 20000;
+
+// Longest unspaced word kept whole before it is broken into character pairs
+const MAX_UNSPACED_TERM = 4;
+
+/**
+ * Guess the language of a text
+ * Text mostly in Han or kana is Chinese or Japanese; otherwise the language whose function
+ * words occur most often wins, with English as the fallback
+ * @param text - Text to inspect
+ * @returns Language code
+ */
+export function detectLanguage(text: string): string {
+  const sample = text.slice(0, DETECTION_SAMPLE_CHARS);
+  const count = (pattern: RegExp) => (sample.match(pattern) || []).length;
+
+  const kana = count(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const han = count(/\p{Script=Han}/gu);
+  if (kana + han > count(/\p{Script=Latin}/gu)) {
+    return kana > 0 ? 'ja' : 'zh';
+  }
+
+  const words = (sample.toLowerCase().match(/\p{L}+(?:['’]\p{L}+)*/gu) || []).map(word => word.replace(/['’]/g, ''));
+  let best = 'en';
+  let bestCount = countStopwords(words, 'en');
+  for (const [code, profile] of Object.entries(LANGUAGES)) {
+    const found = profile.spaced ? countStopwords(words, code) : 0;
+    if (found > bestCount) {
+      best = code;
+      bestCount = found;
+    }
+  }
+  return best;
+}
+
+/**
+ * Settle the language of a tool run
+ * @param language - Requested language code, or 'auto' to detect it
+ * @param text - Text the run works on
+ * @returns Supported language code
+ */
+export function resolveLanguage(language: string, text: string): string {
+  if (language === 'auto') {
+    return detectLanguage(text);
+  }
+  if (!LANGUAGES[language]) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unsupported language "${language}"; available: ${LANGUAGE_OPTIONS.join(', ')}`
+    );
+  }
+  return language;
+}
+
+/**
+ * Count the words of a text, taking each character of an unspaced script as one word
+ * @param text - Text to count
+ * @returns Number of words
+ */
+export function countWords(text: string): number {
+  const unspaced = (text.match(new RegExp(`[${UNSPACED_LETTER}]`, 'gu')) || []).length;
+  const spaced = text.replace(UNSPACED_PATTERN, ' ').split(/\s+/).filter(word => word !== '').length;
+  return unspaced + spaced;
+}
+
+/**
+ * Join two pieces of text, with a space unless both sides are written without spaces
+ * @param left - Text so far
+ * @param right - Text to add
+ * @returns The joined text
+ */
+export function joinText(left: string, right: string): string {
+  if (left === '') {
+    return right;
+  }
+  return left + (UNSPACED_END.test(left) && UNSPACED_START.test(right) ? '' : ' ') + right;
+}
+
+/**
+ * Whether text ends with a sentence mark, possibly followed by closing quotes
+ * @param text - Text to check
+ * @returns True at the end of a sentence
+ */
+export function endsSentence(text: string): boolean {
+  return SENTENCE_END.test(text);
+}
+
+/**
+ * Break a run of letters into the terms weighed as content
+ * Runs in unspaced scripts are cut where the script changes and at function words; kana
+ * endings are dropped, and long runs of Han become overlapping character pairs
+ * @param word - Lower-case run of letters
+ * @param language - Language code
+ * @returns Terms of the run; the run itself when it is an ordinary word
+ */
+export function termUnits(word: string, language: string): string[] {
+  if (!new RegExp(`[${UNSPACED_LETTER}]`, 'u').test(word)) {
+    return [word];
+  }
+
+  const units: string[] = [];
+  const pieces = word.match(/\p{Script=Han}+|[\p{Script=Katakana}ー]+|\p{Script=Hiragana}+|[^\p{Script=Han}\p{Script=Katakana}\p{Script=Hiragana}ー]+/gu) || [];
+  for (const piece of pieces) {
+    if (/^\p{Script=Hiragana}+$/u.test(piece)) {
+      continue;
+    }
+    if (!/^\p{Script=Han}+$/u.test(piece)) {
+      units.push(piece);
+      continue;
+    }
+
+    // Cut Han runs at function words, trying two characters before one
+    let current = '';
+    const flush = () => {
+      if (current.length > MAX_UNSPACED_TERM) {
+        for (let i = 0; i + 2 <= current.length; i++) {
+          units.push(current.slice(i, i + 2));
+        }
+      } else if (current !== '') {
+        units.push(current);
+      }
+      current = '';
+    };
+    for (let i = 0; i < piece.length; i++) {
+      const stop = [piece.slice(i, i + 2), piece[i]].find(candidate => isStopword(candidate, language));
+      if (stop) {
+        flush();
+        i += stop.length - 1;
+      } else {
+        current += piece[i];
+      }
+    }
+    flush();
+  }
+
+  return units;
+}
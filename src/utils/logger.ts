@@ -1,6 +1,63 @@
 import fs from 'fs';
 import path from 'path';
 import { FileHandler } from './file-handler.js';
+import { getConfig } from './config.js';
+
+/**
+ * A single correction (or unapplied suggestion) recorded in a repair log
+ */
+export interface RepairCorrection {
+  original: string;
+  corrected: string;
+  confidence: number;
+  context: string;
+  evidence: string[];
+}
+
+/**
+ * A repair log read back as structured data
+ */
+export interface ParsedRepairLog {
+  session_id: string;
+  source: string;
+  corrections: RepairCorrection[];
+  suggestions: RepairCorrection[];
+  summary: Record<string, string>;
+}
+
+/**
+ * Parse one correction block of a repair log
+ * @param block - Text between two `---` separators
+ * @returns The correction, or null if the block is not a correction
+ */
+function parseCorrectionBlock(block: string): RepairCorrection | null {
+  const original = block.match(/^\[Original\]: (.*)$/m);
+  const corrected = block.match(/^\[(?:Corrected|Suggested)\]: (.*)$/m);
+  const confidence = block.match(/^\[Confidence\]: (\d+(?:\.\d+)?)%$/m);
+
+  if (!original || !corrected || !confidence) {
+    return null;
+  }
+
+  // Context may span lines, so it runs up to the evidence header
+  const context = block.match(/\[Context\]: "([\s\S]*)"\n\[Evidence\]:/);
+  const evidenceStart = block.indexOf('[Evidence]:\n');
+  const evidence = evidenceStart === -1
+    ? []
+    : block
+        .slice(evidenceStart + '[Evidence]:\n'.length)
+        .split('\n')
+        .filter(line => line.startsWith('- '))
+        .map(line => line.slice(2));
+
+  return {
+    original: original[1],
+    corrected: corrected[1],
+    confidence: parseFloat(confidence[1]),
+    context: context ? context[1] : '',
+    evidence
+  };
+}
 
 /**
  * Logger class for handling system and processing logs
@@ -14,7 +71,7 @@ export class Logger {
    * @param sessionId - Session ID for the current process
    * @param baseLogDir - Base directory for logs
    */
-  constructor(sessionId?: string, baseLogDir = '/logs') {
+  constructor(sessionId?: string, baseLogDir = getConfig().logDir) {
     this.sessionId = sessionId || FileHandler.generateSessionId();
     this.baseLogDir = baseLogDir;
   }
@@ -24,25 +81,20 @@ export class Logger {
    * @param originalFilename - The original transcript filename
    * @param corrections - Array of correction objects
    * @param stats - Processing statistics
+   * @param suggestions - Lower-confidence candidates that were not applied
    * @returns The path to the log file
    */
   async logRepairProcess(
     originalFilename: string,
-    corrections: Array<{
-      original: string;
-      corrected: string;
-      confidence: number;
-      context: string;
-      evidence: string[];
-    }>,
+    corrections: RepairCorrection[],
     stats: {
       totalWords: number;
       correctionsMade: number;
       averageConfidence: number;
-    }
+    },
+    suggestions: RepairCorrection[] = []
   ): Promise<string> {
-    const logDir = path.join(this.baseLogDir, 'repairs');
-    const logPath = path.join(logDir, `${this.sessionId}.log`);
+    const logPath = this.getRepairLogPath();
     
     let logContent = `Session: ${this.sessionId}\n`;
     logContent += `Source: ${originalFilename}\n`;
@@ -63,16 +115,154 @@ export class Logger {
       logContent += '---\n';
     }
     
+    // Log suggestions that fell below the confidence threshold
+    if (suggestions.length > 0) {
+      logContent += 'Suggestions (not applied):\n';
+      logContent += '---\n';
+      
+      for (const suggestion of suggestions) {
+        logContent += `[Original]: ${suggestion.original}\n`;
+        logContent += `[Suggested]: ${suggestion.corrected}\n`;
+        logContent += `[Confidence]: ${suggestion.confidence}%\n`;
+        logContent += `[Context]: "${suggestion.context}"\n`;
+        logContent += '[Evidence]:\n';
+        
+        for (const evidence of suggestion.evidence) {
+          logContent += `- ${evidence}\n`;
+        }
+        
+        logContent += '---\n';
+      }
+    }
+    
     // Log summary statistics
     logContent += 'Summary:\n';
     logContent += `Total words processed: ${stats.totalWords}\n`;
     logContent += `Corrections made: ${stats.correctionsMade}\n`;
     logContent += `Average confidence: ${stats.averageConfidence}%\n`;
+    logContent += `Suggestions logged: ${suggestions.length}\n`;
     
     await FileHandler.writeTextFile(logPath, logContent);
     return logPath;
   }
 
+  /**
+   * Get the path of this session's repair log
+   * @returns The log file path
+   */
+  getRepairLogPath(): string {
+    return path.join(this.baseLogDir, 'repairs', `${this.sessionId}.log`);
+  }
+
+  /**
+   * Read this session's repair log back as structured data
+   * @returns The parsed corrections, suggestions and summary statistics
+   */
+  async readRepairLog(): Promise<ParsedRepairLog> {
+    let content: string;
+    try {
+      content = await FileHandler.readTextFile(this.getRepairLogPath());
+    } catch (error) {
+      throw new Error(`Repair log not found for session ${this.sessionId}`);
+    }
+
+    const source = content.match(/^Source: (.*)$/m);
+    const summaryStart = content.lastIndexOf('\nSummary:\n');
+    const body = summaryStart === -1 ? content : content.slice(0, summaryStart);
+    const suggestionsStart = body.indexOf('Suggestions (not applied):\n');
+
+    const parseBlocks = (section: string) => section
+      .split(/^---$/m)
+      .map(parseCorrectionBlock)
+      .filter((c): c is RepairCorrection => c !== null);
+
+    // Summary lines are "Label: value"
+    const summary: Record<string, string> = {};
+    if (summaryStart !== -1) {
+      for (const line of content.slice(summaryStart + '\nSummary:\n'.length).split('\n')) {
+        const separator = line.indexOf(': ');
+        if (separator !== -1) {
+          summary[line.slice(0, separator)] = line.slice(separator + 2);
+        }
+      }
+    }
+
+    return {
+      session_id: this.sessionId,
+      source: source ? source[1] : '',
+      corrections: parseBlocks(suggestionsStart === -1 ? body : body.slice(0, suggestionsStart)),
+      suggestions: suggestionsStart === -1 ? [] : parseBlocks(body.slice(suggestionsStart)),
+      summary
+    };
+  }
+
+  /**
+   * Save the proposals of a dry-run repair so they can be applied later
+   * @param originalFilename - The original transcript filename
+   * @param text - The original text the proposals are positioned against
+   * @param proposals - Proposed corrections
+   * @returns The path to the proposals file
+   */
+  async logRepairProposals<T>(originalFilename: string, text: string, proposals: T[]): Promise<string> {
+    const logPath = path.join(this.baseLogDir, 'repairs', `${this.sessionId}.proposals.json`);
+    
+    const content = {
+      session_id: this.sessionId,
+      source: originalFilename,
+      text,
+      proposals
+    };
+    
+    await FileHandler.writeTextFile(logPath, JSON.stringify(content, null, 2));
+    return logPath;
+  }
+
+  /**
+   * Read the proposals saved by a dry-run repair for this session
+   * @returns The original source, text and proposals
+   */
+  async readRepairProposals<T>(): Promise<{ source: string; text: string; proposals: T[] }> {
+    const logPath = path.join(this.baseLogDir, 'repairs', `${this.sessionId}.proposals.json`);
+    
+    let content: string;
+    try {
+      content = await FileHandler.readTextFile(logPath);
+    } catch (error) {
+      throw new Error(`No repair proposals found for session ${this.sessionId}`);
+    }
+    
+    return JSON.parse(content);
+  }
+
+  /**
+   * Save the placeholders of a redaction, kept out of the session's artifacts so that only
+   * restore_redactions reads them
+   * @param map - Placeholders and the values they replaced
+   * @returns The path to the redaction map file
+   */
+  async logRedactionMap<T>(map: T): Promise<string> {
+    const logPath = path.join(this.baseLogDir, 'redactions', `${this.sessionId}.json`);
+    await FileHandler.writeTextFile(logPath, JSON.stringify(map, null, 2));
+    return logPath;
+  }
+
+  /**
+   * Read the placeholders saved by a redaction for this session
+   * @returns The placeholders and the values they replaced
+   */
+  async readRedactionMap<T>(): Promise<T> {
+    const logPath = path.join(this.baseLogDir, 'redactions', `${this.sessionId}.json`);
+    
+    let content: string;
+    try {
+      content = await FileHandler.readTextFile(logPath);
+    } catch (error) {
+      throw new Error(`No redaction map found for session ${this.sessionId}`);
+    }
+    
+    return JSON.parse(content);
+  }
+
   /**
    * Log summary process information
    * @param constraint - The constraint applied to the summary
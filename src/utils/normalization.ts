@@ -0,0 +1,133 @@
+import { FILLER_LEXICONS } from './disfluency.js';
+import { LANGUAGES } from './languages.js';
+
+/**
+ * Differences ignored when scoring a transcript against a reference
+ */
+export interface NormalizationOptions {
+  ignore_case?: boolean; // default true
+  ignore_punctuation?: boolean; // default true
+  normalize_numbers?: boolean; // spell out digits, so "25" matches "twenty five"; English only, default true
+  ignore_fillers?: boolean; // drop hesitation sounds such as "um"; default false
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+
+// Digits standing alone, with optional thousands separators, decimals and a percent sign
+const NUMBER_PATTERN = /(?<![\p{L}\p{N}])(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?%?(?![\p{L}\p{N}])/gu;
+
+// Tokens: single characters of scripts written without spaces, or runs of anything else
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+/gu;
+
+/**
+ * Spell out a whole number below one thousand
+ * @param value - Number from 0 to 999
+ * @returns Number in words
+ */
+function spellHundreds(value: number): string {
+  const words: string[] = [];
+  if (value >= 100) {
+    words.push(ONES[Math.floor(value / 100)], 'hundred');
+    value %= 100;
+  }
+  if (value >= 20) {
+    words.push(TENS[Math.floor(value / 10)]);
+    value %= 10;
+    if (value > 0) {
+      words.push(ONES[value]);
+    }
+  } else if (value > 0 || words.length === 0) {
+    words.push(ONES[value]);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Spell out a number written in digits, in English
+ * Numbers too large to name are read digit by digit
+ * @param digits - Number such as "1,250", "3.5" or "40%"
+ * @returns Number in words
+ */
+export function spellNumber(digits: string): string {
+  const percent = digits.endsWith('%');
+  const [whole, fraction] = digits.replace(/[,%]/g, '').split('.');
+
+  let words: string;
+  if (whole.length > 12) {
+    words = [...whole].map(digit => ONES[Number(digit)]).join(' ');
+  } else {
+    const groups: string[] = [];
+    let rest = Number(whole);
+    for (let scale = 0; rest > 0 || groups.length === 0; scale++) {
+      const group = rest % 1000;
+      if (group > 0 || rest === 0) {
+        groups.unshift(SCALES[scale] ? `${spellHundreds(group)} ${SCALES[scale]}` : spellHundreds(group));
+      }
+      rest = Math.floor(rest / 1000);
+    }
+    words = groups.join(' ');
+  }
+
+  if (fraction !== undefined) {
+    words += ' point ' + [...fraction].map(digit => ONES[Number(digit)]).join(' ');
+  }
+  return percent ? `${words} percent` : words;
+}
+
+/**
+ * Escape text for use inside a regular expression
+ * @param text - Literal text
+ * @returns Escaped pattern source
+ */
+function escapePattern(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Reduce text to the tokens compared when scoring
+ * Words of spaced languages are tokens; text written without spaces is compared character
+ * by character
+ * @param text - Spoken text, without timestamps or speaker labels
+ * @param language - Language code
+ * @param options - Differences to ignore
+ * @returns Tokens in order
+ */
+export function normalizeTokens(text: string, language: string, options: NormalizationOptions = {}): string[] {
+  const {
+    ignore_case = true,
+    ignore_punctuation = true,
+    normalize_numbers = true,
+    ignore_fillers = false
+  } = options;
+
+  let normalized = text.normalize('NFC').replace(/’/g, '\'');
+  if (ignore_case) {
+    normalized = normalized.toLowerCase();
+  }
+
+  if (normalize_numbers && language === 'en') {
+    normalized = normalized.replace(NUMBER_PATTERN, match => spellNumber(match));
+  }
+
+  if (ignore_fillers && FILLER_LEXICONS[language]) {
+    // Longest first, so "umm" is not read as "um" followed by "m"
+    const fillers = [...FILLER_LEXICONS[language].fillers].sort((a, b) => b.length - a.length).map(escapePattern);
+    const filler = `(?:${fillers.join('|')})`;
+    const source = LANGUAGES[language]?.spaced ? `(?<![\\p{L}\\p{N}])${filler}(?![\\p{L}\\p{N}])` : filler;
+    normalized = normalized.replace(new RegExp(`${source}[,、，]?`, ignore_case ? 'gu' : 'giu'), ' ');
+  }
+
+  if (ignore_punctuation) {
+    // Apostrophes inside words, as in "don't", are part of the word
+    normalized = normalized
+      .replace(/(?<!\p{L})'|'(?!\p{L})/gu, ' ')
+      .replace(/[^\p{L}\p{M}\p{N}\s']/gu, ' ');
+  }
+
+  return normalized.match(TOKEN_PATTERN) || [];
+}
@@ -0,0 +1,52 @@
+/**
+ * Progress reporting and cancellation for a long-running tool call
+ */
+export interface ProgressContext {
+  signal?: AbortSignal; // aborted when the client cancels the request
+  onProgress?: (progress: number, total: number) => void;
+}
+
+// Scale that progress is reported on once a run is split into parts
+export const PROGRESS_TOTAL = 100;
+
+/**
+ * Stop a run whose request has been cancelled
+ * @param context - Progress context of the run
+ */
+export function throwIfCancelled(context: ProgressContext): void {
+  if (context.signal?.aborted) {
+    throw new Error('Cancelled by the client');
+  }
+}
+
+/**
+ * Report progress between two units of work and stop if the run was cancelled
+ * Waiting for the event loop lets a cancellation notification arrive while a long run is busy
+ * @param context - Progress context of the run
+ * @param done - Units of work finished
+ * @param total - Units of work in all
+ * @returns Promise resolving once other pending work has had its turn
+ */
+export async function checkpoint(context: ProgressContext, done: number, total: number): Promise<void> {
+  context.onProgress?.(done, total);
+  await new Promise(resolve => setImmediate(resolve));
+  throwIfCancelled(context);
+}
+
+/**
+ * Give one part of a run a share of the overall progress
+ * @param context - Progress context of the whole run
+ * @param from - Overall progress when the part starts, out of PROGRESS_TOTAL
+ * @param to - Overall progress when the part ends, out of PROGRESS_TOTAL
+ * @returns Progress context for the part, reporting into its share
+ */
+export function withinRange(context: ProgressContext, from: number, to: number): ProgressContext {
+  const { signal, onProgress } = context;
+  return {
+    signal,
+    onProgress: onProgress && ((done, total) => {
+      const fraction = total > 0 ? Math.min(done / total, 1) : 1;
+      onProgress(from + (to - from) * fraction, PROGRESS_TOTAL);
+    })
+  };
+}
@@ -0,0 +1,279 @@
+import { TranscriptSegment } from '../parsers/types.js';
+import { countWords, endsSentence, LANGUAGES, SENTENCE_MARKS } from './languages.js';
+
+/**
+ * When to restore punctuation: only for text that lacks it, always, or never
+ */
+export type PunctuationMode = 'auto' | 'always' | 'never';
+
+export const PUNCTUATION_MODES: PunctuationMode[] = ['auto', 'always', 'never'];
+
+/**
+ * Settings for punctuation restoration
+ */
+export interface PunctuationOptions {
+  pauseThreshold?: number; // seconds of silence that end a sentence
+  properNouns?: string[]; // names written as they should be capitalized
+  language?: string; // language code; the word cues for sentence breaks and questions are English
+}
+
+/**
+ * What punctuation restoration changed
+ */
+export interface PunctuationStats {
+  sentences: number;
+  questions: number;
+  pauseBreaks: number; // sentences ended at a pause
+  speakerBreaks: number; // sentences ended at a change of speaker
+  lexicalBreaks: number; // sentences ended before a word that usually starts one
+}
+
+// Silence after a segment that ends a sentence
+const DEFAULT_PAUSE_THRESHOLD = 0.7;
+
+// Punctuated text has a sentence mark at least this often
+const MAX_WORDS_PER_MARK = 40;
+
+// A sentence mark followed by a space or the end of the text, or a full-width mark anywhere
+const SENTENCE_MARK = new RegExp(`[${SENTENCE_MARKS}](?=\\s|$)|[。！？｡]`, 'gu');
+
+// Lexical cues never split off a sentence shorter than this, and runs longer than the
+// maximum are broken at the next conjunction or pronoun. Questions are clearer cues and may
+// follow a shorter sentence
+const MIN_SENTENCE_WORDS = 6;
+const MIN_QUESTION_WORDS = 3;
+const MAX_SENTENCE_WORDS = 30;
+
+// Words that start a new sentence whenever the current one is long enough
+const SENTENCE_STARTERS = ['okay', 'ok', 'alright', 'anyway', 'anyways'];
+
+// Discourse words that start a sentence when a subject pronoun follows, as in "so we"
+const LEADING_WORDS = ['so', 'well', 'now', 'but', 'today', 'tonight'];
+const SUBJECT_PRONOUNS = ['i', 'we', 'you', 'they', 'he', 'she', 'it', 'this', 'that', 'there'];
+
+// Where an over-long run is broken
+const FALLBACK_BREAKS = ['and', 'but', 'so', 'then', 'i', 'we', 'you', 'they'];
+
+// First words of a question, after any leading discourse word. They also start a sentence when
+// a subject pronoun follows, as in "do you" or "what do you"
+const WH_WORDS = ['what', 'why', 'how', 'when', 'where', 'who', 'whom', 'whose', 'which'];
+const AUXILIARIES = [
+  'is', 'are', 'was', 'were', 'do', 'does', 'did', 'can', 'could', 'would', 'will', 'should', 'shall',
+  'have', 'has', 'isnt', 'arent', 'dont', 'doesnt', 'didnt', 'cant', 'wont', 'shouldnt', 'wouldnt'
+];
+const QUESTION_WORDS = [...WH_WORDS, ...AUXILIARIES];
+
+/**
+ * A word of the transcript with the segment it belongs to
+ */
+interface Word {
+  text: string;
+  segment: number;
+}
+
+/**
+ * Reduce a word to lower-case letters, for comparison with the cue lists
+ * @param word - Word as written
+ * @returns The bare word
+ */
+function bare(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Escape a literal string for use in a regular expression
+ * @param value - Literal text
+ * @returns Escaped pattern source
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a word opens a question, as in "do you", "can we" or "what do you"
+ * "That is it" is a statement, so an auxiliary right after a pronoun opens nothing
+ * @param words - Bare words of the transcript
+ * @param i - Position of the candidate first word
+ * @returns True if a question starts at the word
+ */
+function opensQuestion(words: string[], i: number): boolean {
+  const [previous, cue, after, third] = [words[i - 1] ?? '', words[i], words[i + 1] ?? '', words[i + 2] ?? ''];
+  if (WH_WORDS.includes(cue)) {
+    return AUXILIARIES.includes(after) && SUBJECT_PRONOUNS.includes(third);
+  }
+  return AUXILIARIES.includes(cue)
+    && SUBJECT_PRONOUNS.includes(after)
+    && !SUBJECT_PRONOUNS.includes(previous)
+    && !QUESTION_WORDS.includes(previous);
+}
+
+/**
+ * Decide whether a sentence always ends between two segments: at a change of speaker, or at a
+ * pause when the segments are timed. Segments without an end time are measured from start to start
+ * @param segment - Earlier segment
+ * @param following - Segment right after it
+ * @param timed - Whether the segments carry real timestamps
+ * @param pauseThreshold - Seconds of silence that end a sentence
+ * @returns Why the sentence ends, or null if the segments may share a sentence
+ */
+function segmentBreak(
+  segment: TranscriptSegment,
+  following: TranscriptSegment,
+  timed: boolean,
+  pauseThreshold: number
+): 'pauseBreaks' | 'speakerBreaks' | null {
+  if (following.speaker !== segment.speaker) {
+    return 'speakerBreaks';
+  }
+  const pause = following.start - (segment.end ?? segment.start);
+  return timed && pause >= pauseThreshold ? 'pauseBreaks' : null;
+}
+
+/**
+ * Find where the last sentence of a run of segments surely starts, so a long transcript can be
+ * punctuated a run at a time with the same result as all at once
+ * @param segments - Parsed transcript segments
+ * @param timed - Whether the segments carry real timestamps
+ * @param pauseThreshold - Seconds of silence that end a sentence
+ * @returns Index of the first segment after the last break between segments, or 0 if there is none
+ */
+export function lastSegmentBreak(
+  segments: TranscriptSegment[],
+  timed: boolean,
+  pauseThreshold = DEFAULT_PAUSE_THRESHOLD
+): number {
+  for (let i = segments.length - 1; i > 0; i--) {
+    if (segmentBreak(segments[i - 1], segments[i], timed, pauseThreshold) !== null) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Decide whether a transcript lacks punctuation, as raw speech recognition output does
+ * @param segments - Parsed transcript segments
+ * @returns True when sentence marks are missing or too rare for the amount of text
+ */
+export function needsPunctuation(segments: TranscriptSegment[]): boolean {
+  const text = segments.map(segment => segment.text).join(' ');
+  const words = countWords(text);
+  const marks = (text.match(SENTENCE_MARK) || []).length;
+  return words > 0 && (marks === 0 || words / marks > MAX_WORDS_PER_MARK);
+}
+
+/**
+ * Restore sentence punctuation and capitals in unpunctuated transcript segments
+ * Sentences end at pauses between timed segments, at changes of speaker, before words that
+ * usually open a sentence or a question and where the text already has a sentence mark.
+ * Segments without an end time, such as bracketed lines, are measured from start to start
+ * @param segments - Parsed transcript segments
+ * @param timed - Whether the segments carry real timestamps, which makes pauses meaningful
+ * @param options - Pause threshold, proper nouns and language
+ * @returns Segments with restored punctuation, and what was changed
+ */
+export function restorePunctuation(
+  segments: TranscriptSegment[],
+  timed: boolean,
+  options: PunctuationOptions = {}
+): { segments: TranscriptSegment[]; stats: PunctuationStats } {
+  const { pauseThreshold = DEFAULT_PAUSE_THRESHOLD, properNouns = [], language = 'en' } = options;
+  const { fullStop, questionMark } = LANGUAGES[language] ?? LANGUAGES.en;
+  const english = language === 'en';
+  const stats: PunctuationStats = { sentences: 0, questions: 0, pauseBreaks: 0, speakerBreaks: 0, lexicalBreaks: 0 };
+
+  const words: Word[] = segments.flatMap((segment, i) =>
+    segment.text.split(/\s+/).filter(text => text !== '').map(text => ({ text, segment: i }))
+  );
+  const bareWords = words.map(word => bare(word.text));
+
+  // Decide which words end a sentence
+  const ends = new Set<number>();
+  let length = 0;
+  words.forEach((word, w) => {
+    length++;
+    const next = words[w + 1];
+    if (!next) {
+      ends.add(w);
+      return;
+    }
+
+    // A sentence mark already in the text is kept as it is
+    if (endsSentence(word.text)) {
+      ends.add(w);
+      length = 0;
+      return;
+    }
+
+    let reason: 'pauseBreaks' | 'speakerBreaks' | 'lexicalBreaks' | null = next.segment !== word.segment
+      ? segmentBreak(segments[word.segment], segments[next.segment], timed, pauseThreshold)
+      : null;
+
+    if (reason === null && english && length >= MIN_QUESTION_WORDS) {
+      const cue = bareWords[w + 1];
+      const after = bareWords[w + 2] ?? '';
+      if (
+        opensQuestion(bareWords, w + 1)
+        || (length >= MIN_SENTENCE_WORDS && SENTENCE_STARTERS.includes(cue))
+        || (length >= MIN_SENTENCE_WORDS && LEADING_WORDS.includes(cue) && SUBJECT_PRONOUNS.includes(after))
+        || (length >= MAX_SENTENCE_WORDS && FALLBACK_BREAKS.includes(cue))
+      ) {
+        reason = 'lexicalBreaks';
+      }
+    }
+
+    if (reason !== null) {
+      stats[reason]++;
+      ends.add(w);
+      length = 0;
+    }
+  });
+
+  // Punctuate and capitalize sentence by sentence
+  let first = 0;
+  words.forEach((word, w) => {
+    if (!ends.has(w)) {
+      return;
+    }
+
+    const sentence = words.slice(first, w + 1);
+    const opener = LEADING_WORDS.includes(bare(sentence[0].text)) && sentence.length > 1 ? 1 : 0;
+    const question = english && QUESTION_WORDS.includes(bare(sentence[opener].text));
+
+    sentence.forEach((entry, k) => {
+      let text = entry.text;
+      if (/^i(?:['’](?:m|ll|ve|d))?$/.test(text)) {
+        text = 'I' + text.slice(1);
+      }
+      if (k === 0) {
+        text = text.replace(/\p{L}/u, letter => letter.toUpperCase());
+      }
+      if (k === sentence.length - 1 && !endsSentence(text)) {
+        text = text.replace(/[,;:、，]$/, '') + (question ? questionMark : fullStop);
+      }
+      entry.text = text;
+    });
+
+    stats.sentences++;
+    if (/[?？]["')\]」』]*$/.test(sentence[sentence.length - 1].text)) {
+      stats.questions++;
+    }
+    first = w + 1;
+  });
+
+  // Proper nouns take their written form wherever they occur
+  const properNounPatterns = properNouns.map(noun => ({
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(noun).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}_])`, 'giu'),
+    noun
+  }));
+  const segmentWords: string[][] = segments.map(() => []);
+  for (const word of words) {
+    segmentWords[word.segment].push(word.text);
+  }
+  const restored = segments.map((segment, i) => ({
+    ...segment,
+    text: properNounPatterns.reduce((text, { pattern, noun }) => text.replace(pattern, noun), segmentWords[i].join(' '))
+  }));
+
+  return { segments: restored, stats };
+}
@@ -0,0 +1,20 @@
+// Work queued per key, such as a stream ID or an indexed directory
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run work after any work already queued under the same key
+ * @param key - Key of the resource the work changes
+ * @param work - Work to run
+ * @returns Promise resolving to the work's result
+ */
+export function serialize<T>(key: string, work: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(work);
+  queues.set(key, next);
+  next.finally(() => {
+    if (queues.get(key) === next) {
+      queues.delete(key);
+    }
+  }).catch(() => undefined);
+  return next;
+}
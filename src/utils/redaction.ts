@@ -0,0 +1,278 @@
+/**
+ * Kinds of personal data that can be redacted
+ */
+export type PiiType = 'person' | 'email' | 'phone' | 'card' | 'account' | 'url' | 'date_of_birth';
+
+// Kinds in the order they claim text, so an email address is not also read as a name or a URL
+export const PII_TYPES: PiiType[] = ['email', 'url', 'card', 'account', 'date_of_birth', 'phone', 'person'];
+
+/**
+ * Placeholders handed out for one transcript and the values they stand for
+ */
+export interface RedactionMap {
+  placeholders: Record<string, string>; // placeholder -> original text, as first seen
+  keys: Record<string, string>; // kind and normalized value -> placeholder
+  occurrences: string[]; // every value replaced, in order, as written at that point
+}
+
+/**
+ * A piece of personal data found in a line
+ */
+interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+// Placeholder label of each kind, as in [PHONE_2]
+const LABELS: Record<PiiType, string> = {
+  person: 'PERSON',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  card: 'CARD',
+  account: 'ACCOUNT',
+  url: 'URL',
+  date_of_birth: 'DOB'
+};
+
+const PLACEHOLDER_PATTERN = new RegExp(`\\[(?:${Object.values(LABELS).join('|')})_\\d+\\]`, 'g');
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'()]*[^\s<>"'().,;:!?]/gi;
+
+// Card numbers of 13 to 19 digits, optionally grouped by spaces or dashes
+const CARD_PATTERN = /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g;
+
+// International bank account numbers, and numbers introduced as an account or reference
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+const ACCOUNT_PATTERN = /\b(?:account|acct|routing|sort code|policy|member(?:ship)?|customer|reference)(?:\s+(?:number|no\.?|num|id|#))?(?:\s+(?:is|was))?\s*[:#]?\s*([A-Z]{0,3}\d[\d -]{4,}\d)/gi;
+
+// Grouped phone numbers such as +1 (555) 123-4567, or an unbroken run of 7 to 15 digits
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}(?!\w)|(?<![\w+])\+?\d{7,15}(?!\w)/g;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+// Groups of a local number written without a country or area code, as in 555-1234
+const LOCAL_PHONE = /^\d{3}[ .-]\d{4}$/;
+
+// Groups that read as years, as in "2024-2025"
+const YEAR_GROUPS = /^(?:1[89]|20)\d\d(?:[ .-](?:1[89]|20)\d\d)*$/;
+
+// Numeric dates, which would otherwise pass for phone numbers
+const NUMERIC_DATE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+
+// Dates are only personal data when introduced as a birth date, within this many characters
+const BIRTH_CUE_PATTERN = /\b(?:born|birth(?:day|date)?|d\.?o\.?b\b\.?)/gi;
+const BIRTH_DATE_WINDOW = 40;
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const DATE_PATTERN = new RegExp(
+  '\\b(?:\\d{4}[./-]\\d{1,2}[./-]\\d{1,2}|\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}' +
+    `|(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}` +
+    `|\\d{1,2}(?:st|nd|rd|th)?(?:\\s+of)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}` +
+    `|(?:${MONTHS})\\.?\\s+\\d{4})\\b`,
+  'i'
+);
+
+/**
+ * Check a card number with the Luhn checksum
+ * @param digits - Card number digits
+ * @returns True if the checksum holds
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Escape text for use inside a regular expression
+ * @param text - Literal text
+ * @returns Escaped pattern source
+ */
+function escapePattern(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the pattern matching any of the given names as whole words, in any case
+ * @param names - Names to find
+ * @returns Pattern, or null when there are no names
+ */
+export function namePattern(names: string[]): RegExp | null {
+  const cleaned = names.map(name => name.trim().replace(/\s+/g, ' ')).filter(name => name !== '');
+  if (cleaned.length === 0) {
+    return null;
+  }
+
+  // Longest first, so "Ann Lee" wins over "Ann"
+  const alternatives = [...new Set(cleaned)]
+    .sort((a, b) => b.length - a.length)
+    .map(name => escapePattern(name).replace(/ /g, '\\s+'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Check that digits are shaped like a phone number rather than a range or a list of numbers
+ * Grouped digits need a country code, an area code in parentheses, three or more groups or the
+ * 3-4 shape of a local number
+ * @param value - Text matched by the phone pattern
+ * @returns True if the value reads as a phone number
+ */
+function isPhoneShaped(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  if (digits < MIN_PHONE_DIGITS || digits > MAX_PHONE_DIGITS || NUMERIC_DATE.test(value) || YEAR_GROUPS.test(value)) {
+    return false;
+  }
+
+  const groups = value.split(/[ .-]+/).length;
+  return /^[+(]/.test(value) || groups === 1 || groups >= 3 || LOCAL_PHONE.test(value);
+}
+
+/**
+ * Find the personal data of one kind in a line
+ * @param text - Line of text
+ * @param type - Kind of data
+ * @param names - Pattern for the caller's names
+ * @returns Spans found, in order
+ */
+function findType(text: string, type: PiiType, names: RegExp | null): PiiMatch[] {
+  const spans = (pattern: RegExp, accept: (value: string) => boolean = () => true): PiiMatch[] =>
+    [...text.matchAll(pattern)]
+      .filter(match => accept(match[0]))
+      .map(match => ({ type, start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+
+  switch (type) {
+    case 'email':
+      return spans(EMAIL_PATTERN);
+    case 'url':
+      return spans(URL_PATTERN);
+    case 'card':
+      return spans(CARD_PATTERN, value => passesLuhn(value.replace(/\D/g, '')));
+    case 'account':
+      // The number itself ends the match of a cued account
+      return [
+        ...spans(IBAN_PATTERN),
+        ...[...text.matchAll(ACCOUNT_PATTERN)].map(match => {
+          const end = (match.index ?? 0) + match[0].length;
+          return { type, start: end - match[1].length, end };
+        })
+      ];
+    case 'phone':
+      return spans(PHONE_PATTERN, isPhoneShaped);
+    case 'date_of_birth':
+      return [...text.matchAll(BIRTH_CUE_PATTERN)].flatMap(cue => {
+        const from = (cue.index ?? 0) + cue[0].length;
+        const date = text.slice(from, from + BIRTH_DATE_WINDOW).match(DATE_PATTERN);
+        return date ? [{ type, start: from + (date.index ?? 0), end: from + (date.index ?? 0) + date[0].length }] : [];
+      });
+    case 'person':
+      return names ? spans(names) : [];
+  }
+}
+
+/**
+ * Normalize a value so different spellings of the same data share a placeholder
+ * @param type - Kind of data
+ * @param value - Text found
+ * @returns Normalized value
+ */
+function normalizeValue(type: PiiType, value: string): string {
+  switch (type) {
+    case 'phone':
+    case 'card':
+      return value.replace(/\D/g, '');
+    case 'account':
+      return value.replace(/[\s-]/g, '').toUpperCase();
+    case 'url':
+      return value.toLowerCase().replace(/\/$/, '');
+    default:
+      return value.toLowerCase().replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Get the placeholder for a value, handing out the next number of its kind when it is new
+ * @param map - Placeholders of the transcript, updated in place
+ * @param type - Kind of data
+ * @param value - Text found
+ * @returns Placeholder such as [PHONE_2]
+ */
+function placeholderFor(map: RedactionMap, type: PiiType, value: string): string {
+  const key = `${type}:${normalizeValue(type, value)}`;
+  if (!map.keys[key]) {
+    const label = LABELS[type];
+    const number = Object.keys(map.placeholders).filter(placeholder => placeholder.startsWith(`[${label}_`)).length + 1;
+    map.keys[key] = `[${label}_${number}]`;
+    map.placeholders[map.keys[key]] = value;
+  }
+  return map.keys[key];
+}
+
+/**
+ * Replace the personal data in a line with placeholders
+ * @param text - Line of text, without its timestamp or speaker label
+ * @param types - Kinds of data to redact
+ * @param names - Pattern for the caller's names
+ * @param map - Placeholders of the transcript, extended with any new values
+ * @returns The redacted line and the kinds of data replaced
+ */
+export function redactLine(
+  text: string,
+  types: PiiType[],
+  names: RegExp | null,
+  map: RedactionMap
+): { text: string; found: PiiType[] } {
+  // Earlier kinds claim their text first; later matches overlapping them are dropped
+  const claimed: PiiMatch[] = [];
+  for (const type of PII_TYPES.filter(kind => types.includes(kind))) {
+    for (const match of findType(text, type, names)) {
+      if (!claimed.some(other => match.start < other.end && other.start < match.end)) {
+        claimed.push(match);
+      }
+    }
+  }
+  claimed.sort((a, b) => a.start - b.start);
+
+  let redacted = '';
+  let position = 0;
+  for (const match of claimed) {
+    const value = text.slice(match.start, match.end);
+    redacted += text.slice(position, match.start) + placeholderFor(map, match.type, value);
+    map.occurrences.push(value);
+    position = match.end;
+  }
+
+  return { text: redacted + text.slice(position), found: claimed.map(match => match.type) };
+}
+
+/**
+ * Put the original values back in place of their placeholders
+ * The redacted transcript itself gets each value back as it was written there; other text gets
+ * the first spelling seen. Placeholders the map does not know are left as they are
+ * @param text - Text containing placeholders
+ * @param map - Placeholders of the transcript
+ * @param exact - Whether the text is the redacted transcript, unchanged
+ * @returns Restored text and the number of placeholders replaced
+ */
+export function restorePlaceholders(text: string, map: RedactionMap, exact = false): { text: string; restored: number } {
+  let restored = 0;
+  const result = text.replace(PLACEHOLDER_PATTERN, placeholder => {
+    const original = exact ? map.occurrences[restored] : map.placeholders[placeholder];
+    if (original === undefined) {
+      return placeholder;
+    }
+    restored++;
+    return original;
+  });
+  return { text: result, restored };
+}
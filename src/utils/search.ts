@@ -0,0 +1,487 @@
+/**
+ * A transcript segment as kept in the search index
+ */
+export interface IndexedSegment {
+  start: number | null; // seconds, null for untimed text
+  speaker: string | null;
+  text: string;
+}
+
+/**
+ * A transcript in the search index
+ */
+export interface IndexedFile {
+  path: string; // relative to the indexed directory
+  mtime: number; // modification time in milliseconds when indexed
+  size: number;
+  format: string;
+  segments: IndexedSegment[];
+  postings: Map<string, number[]>; // term -> flattened [segment, position] pairs
+}
+
+/**
+ * The search index as stored on disk
+ */
+export interface StoredIndex {
+  version: number;
+  files: Array<Omit<IndexedFile, 'postings'> & { postings: Array<[string, number[]]> }>;
+}
+
+/**
+ * A parsed search query
+ * Terms may allow spelling differences (fuzzy) or match as a prefix
+ */
+export type QueryNode =
+  | { kind: 'term'; term: string; distance: number | 'auto'; prefix: boolean }
+  | { kind: 'phrase'; terms: string[] }
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+/**
+ * A segment matching a query
+ */
+export interface SearchHit {
+  file: string;
+  segment: number;
+  score: number;
+  terms: string[]; // indexed terms that matched
+}
+
+/**
+ * Segments of each file matched by part of a query, with their scores and terms
+ */
+type Matches = Map<string, Map<number, { score: number; terms: Set<string> }>>;
+
+// Version of the stored index layout; older indexes are rebuilt
+export const INDEX_VERSION = 1;
+
+// Words of spaced scripts, or single characters of scripts written without spaces
+const TERM_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+// Query syntax: quoted phrases, parentheses and words
+const QUERY_TOKEN_PATTERN = /"[^"]*"?|[()]|[^\s()"]+/g;
+
+// Words of this length or less allow one edit when fuzzy, longer words two
+const SHORT_TERM_LENGTH = 5;
+
+/**
+ * Break text into the terms that are indexed and searched
+ * @param text - Text to break up
+ * @returns Lower-case terms in order
+ */
+export function indexTerms(text: string): string[] {
+  return (text.normalize('NFC').toLowerCase().match(TERM_PATTERN) || []).map(term => term.replace(/’/g, '\''));
+}
+
+/**
+ * Count the edits between two words, giving up once the count passes a limit
+ * @param a - First word
+ * @param b - Second word
+ * @param limit - Largest distance of interest
+ * @returns Edit distance, or limit + 1 when it is larger than the limit
+ */
+function boundedDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Parse a search query
+ * Words must all occur in a file unless joined by OR; "quoted phrases" match consecutive words,
+ * NOT or a leading - excludes files, parentheses group, word~ or word~2 allows spelling
+ * differences and word* matches a prefix
+ * @param query - Query text
+ * @returns Parsed query
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = query.match(QUERY_TOKEN_PATTERN) || [];
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+
+  const parseWord = (word: string): QueryNode => {
+    const modifier = word.match(/(?:~(\d)?|\*)$/);
+    const bare = modifier ? word.slice(0, -modifier[0].length) : word;
+    const terms = indexTerms(bare);
+    if (terms.length === 0) {
+      throw new Error(`Nothing to search for in "${word}"`);
+    }
+    if (terms.length > 1) {
+      // Words joined by punctuation, such as "follow-up", match as a phrase
+      return { kind: 'phrase', terms };
+    }
+
+    const fuzzy = modifier && modifier[0].startsWith('~');
+    return {
+      kind: 'term',
+      term: terms[0],
+      distance: fuzzy ? (modifier[1] !== undefined ? Number(modifier[1]) : 'auto') : 0,
+      prefix: modifier?.[0] === '*'
+    };
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error('Query ends unexpectedly');
+    }
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') {
+        throw new Error('Missing closing parenthesis');
+      }
+      return node;
+    }
+    if (token === ')') {
+      throw new Error('Unexpected closing parenthesis');
+    }
+    if (token.startsWith('"')) {
+      const terms = indexTerms(token.replace(/"/g, ''));
+      if (terms.length === 0) {
+        throw new Error('Empty phrase');
+      }
+      return terms.length === 1 ? { kind: 'term', term: terms[0], distance: 0, prefix: false } : { kind: 'phrase', terms };
+    }
+    return parseWord(token);
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token === 'NOT') {
+      position++;
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (token !== undefined && token.length > 1 && token.startsWith('-')) {
+      tokens[position] = token.slice(1);
+      return { kind: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() !== undefined && peek() !== 'OR' && peek() !== ')') {
+      if (peek() === 'AND') {
+        position++;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek() === 'OR') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Empty query');
+  }
+  const root = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  return root;
+}
+
+/**
+ * Inverted index over the segments of a set of transcripts
+ */
+export class SearchIndex {
+  private files = new Map<string, IndexedFile>();
+  private vocabulary = new Map<string, Set<string>>(); // term -> files containing it
+
+  /**
+   * Rebuild an index from its stored form
+   * @param stored - Index as read from disk
+   * @returns The index, empty if it was stored in an older layout
+   */
+  static fromStored(stored: StoredIndex): SearchIndex {
+    const index = new SearchIndex();
+    if (stored.version === INDEX_VERSION) {
+      for (const file of stored.files) {
+        index.insert({ ...file, postings: new Map(file.postings) });
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Convert the index to its stored form
+   * @returns Index ready to be written as JSON
+   */
+  toStored(): StoredIndex {
+    return {
+      version: INDEX_VERSION,
+      files: [...this.files.values()].map(file => ({ ...file, postings: [...file.postings] }))
+    };
+  }
+
+  /**
+   * Get an indexed file
+   * @param filePath - Path relative to the indexed directory
+   * @returns The file, or undefined if it is not indexed
+   */
+  getFile(filePath: string): IndexedFile | undefined {
+    return this.files.get(filePath);
+  }
+
+  /**
+   * List the indexed files
+   * @returns Paths relative to the indexed directory
+   */
+  listFiles(): string[] {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * Number of distinct terms in the index
+   */
+  get termCount(): number {
+    return this.vocabulary.size;
+  }
+
+  /**
+   * Add a transcript to the index, replacing any earlier version of it
+   * @param file - File details and its parsed segments
+   */
+  addFile(file: Omit<IndexedFile, 'postings'>): void {
+    const postings = new Map<string, number[]>();
+    file.segments.forEach((segment, i) => {
+      indexTerms(segment.text).forEach((term, position) => {
+        const list = postings.get(term);
+        if (list) {
+          list.push(i, position);
+        } else {
+          postings.set(term, [i, position]);
+        }
+      });
+    });
+
+    this.removeFile(file.path);
+    this.insert({ ...file, postings });
+  }
+
+  /**
+   * Remove a transcript from the index
+   * @param filePath - Path relative to the indexed directory
+   */
+  removeFile(filePath: string): void {
+    const file = this.files.get(filePath);
+    if (!file) {
+      return;
+    }
+
+    for (const term of file.postings.keys()) {
+      const containing = this.vocabulary.get(term);
+      containing?.delete(filePath);
+      if (containing?.size === 0) {
+        this.vocabulary.delete(term);
+      }
+    }
+    this.files.delete(filePath);
+  }
+
+  /**
+   * Find the segments matching a query, best first
+   * @param query - Parsed query
+   * @param fuzzy - Whether plain words allow spelling differences
+   * @returns Matching segments
+   */
+  search(query: QueryNode, fuzzy = false): SearchHit[] {
+    const hits: SearchHit[] = [];
+    for (const [file, segments] of this.evaluate(query, fuzzy)) {
+      for (const [segment, { score, terms }] of segments) {
+        hits.push({ file, segment, score, terms: [...terms] });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score || a.file.localeCompare(b.file) || a.segment - b.segment);
+  }
+
+  /**
+   * Store a file and register its terms
+   * @param file - File with its postings
+   */
+  private insert(file: IndexedFile): void {
+    this.files.set(file.path, file);
+    for (const term of file.postings.keys()) {
+      const containing = this.vocabulary.get(term);
+      if (containing) {
+        containing.add(file.path);
+      } else {
+        this.vocabulary.set(term, new Set([file.path]));
+      }
+    }
+  }
+
+  /**
+   * Weight of a term: rarer terms count for more
+   * @param term - Indexed term
+   * @returns Inverse document frequency
+   */
+  private weight(term: string): number {
+    return Math.log(1 + this.files.size / (this.vocabulary.get(term)?.size || 1));
+  }
+
+  /**
+   * Find the indexed terms a query term stands for
+   * @param node - Query term
+   * @param fuzzy - Whether plain words allow spelling differences
+   * @returns Indexed terms with how closely each matches
+   */
+  private expand(node: Extract<QueryNode, { kind: 'term' }>, fuzzy: boolean): Array<{ term: string; closeness: number }> {
+    const distance = node.distance === 'auto' || (fuzzy && node.distance === 0 && !node.prefix)
+      ? (node.term.length <= SHORT_TERM_LENGTH ? 1 : 2)
+      : node.distance;
+
+    if (node.prefix) {
+      return [...this.vocabulary.keys()].filter(term => term.startsWith(node.term)).map(term => ({ term, closeness: 1 }));
+    }
+    if (distance === 0) {
+      return this.vocabulary.has(node.term) ? [{ term: node.term, closeness: 1 }] : [];
+    }
+
+    const expanded: Array<{ term: string; closeness: number }> = [];
+    for (const term of this.vocabulary.keys()) {
+      const edits = boundedDistance(node.term, term, distance);
+      if (edits <= distance) {
+        expanded.push({ term, closeness: 1 / (1 + edits) });
+      }
+    }
+    return expanded;
+  }
+
+  /**
+   * Match part of a query against the index
+   * @param node - Query part
+   * @param fuzzy - Whether plain words allow spelling differences
+   * @returns Matching segments by file
+   */
+  private evaluate(node: QueryNode, fuzzy: boolean): Matches {
+    const matches: Matches = new Map();
+    const record = (file: string, segment: number, score: number, term: string) => {
+      const segments = matches.get(file) ?? new Map();
+      const entry = segments.get(segment) ?? { score: 0, terms: new Set<string>() };
+      entry.score += score;
+      entry.terms.add(term);
+      segments.set(segment, entry);
+      matches.set(file, segments);
+    };
+
+    switch (node.kind) {
+      case 'term':
+        for (const { term, closeness } of this.expand(node, fuzzy)) {
+          const weight = this.weight(term) * closeness;
+          for (const file of this.vocabulary.get(term) ?? []) {
+            const pairs = this.files.get(file)?.postings.get(term) ?? [];
+            for (let i = 0; i < pairs.length; i += 2) {
+              record(file, pairs[i], weight, term);
+            }
+          }
+        }
+        return matches;
+
+      case 'phrase': {
+        const [first, ...rest] = node.terms;
+        const weight = node.terms.reduce((sum, term) => sum + this.weight(term), 0);
+        for (const file of this.vocabulary.get(first) ?? []) {
+          const postings = this.files.get(file)?.postings;
+          if (!postings || rest.some(term => !postings.has(term))) {
+            continue;
+          }
+
+          // Positions of each later word, to check the words follow one another
+          const at = rest.map(term => {
+            const pairs = postings.get(term) ?? [];
+            const positions = new Set<string>();
+            for (let i = 0; i < pairs.length; i += 2) {
+              positions.add(`${pairs[i]}:${pairs[i + 1]}`);
+            }
+            return positions;
+          });
+          const pairs = postings.get(first) ?? [];
+          for (let i = 0; i < pairs.length; i += 2) {
+            const [segment, position] = [pairs[i], pairs[i + 1]];
+            if (at.every((positions, k) => positions.has(`${segment}:${position + k + 1}`))) {
+              record(file, segment, weight, node.terms.join(' '));
+            }
+          }
+        }
+        return matches;
+      }
+
+      case 'or':
+        for (const child of node.children) {
+          if (child.kind === 'not') {
+            throw new Error('NOT can only narrow down other terms, not be an alternative');
+          }
+          this.merge(matches, this.evaluate(child, fuzzy));
+        }
+        return matches;
+
+      case 'and': {
+        const included = node.children.filter(child => child.kind !== 'not');
+        if (included.length === 0) {
+          throw new Error('A query needs at least one term that is not excluded');
+        }
+
+        // Files must match every included part and none of the excluded ones
+        const parts = included.map(child => this.evaluate(child, fuzzy));
+        const excluded = node.children
+          .filter((child): child is Extract<QueryNode, { kind: 'not' }> => child.kind === 'not')
+          .map(child => this.evaluate(child.child, fuzzy));
+        for (const file of parts[0].keys()) {
+          if (parts.every(part => part.has(file)) && !excluded.some(part => part.has(file))) {
+            for (const part of parts) {
+              this.merge(matches, new Map([[file, part.get(file) ?? new Map()]]));
+            }
+          }
+        }
+        return matches;
+      }
+
+      case 'not':
+        throw new Error('A query needs at least one term that is not excluded');
+    }
+  }
+
+  /**
+   * Add the matches of one query part to another's
+   * @param target - Matches to extend
+   * @param source - Matches to add
+   */
+  private merge(target: Matches, source: Matches): void {
+    for (const [file, segments] of source) {
+      const targetSegments = target.get(file) ?? new Map();
+      for (const [segment, { score, terms }] of segments) {
+        const entry = targetSegments.get(segment) ?? { score: 0, terms: new Set<string>() };
+        entry.score += score;
+        terms.forEach(term => entry.terms.add(term));
+        targetSegments.set(segment, entry);
+      }
+      target.set(file, targetSegments);
+    }
+  }
+}
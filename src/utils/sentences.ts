@@ -0,0 +1,71 @@
+import { TranscriptSegment } from '../parsers/index.js';
+import { sentenceSpans } from './extractive.js';
+import { joinText } from './languages.js';
+
+/**
+ * A sentence with the time range and speaker of the transcript it came from
+ */
+export interface TimedSentence {
+  text: string;
+  start: number | null; // seconds; null for untimed text
+  end: number | null;
+  speaker: string | null;
+}
+
+/**
+ * Split transcript segments into sentences that keep their source time range and speaker
+ * Consecutive segments by the same speaker are read as one stream, so a sentence may run
+ * across segments: it starts when the segment holding its first word starts and ends when
+ * the segment holding its last word ends (or the following segment starts)
+ * @param segments - Parsed transcript segments
+ * @param timed - Whether the segments carry real timestamps
+ * @returns Sentences in transcript order
+ */
+export function segmentSentences(segments: TranscriptSegment[], timed = true): TimedSentence[] {
+  const sentences: TimedSentence[] = [];
+
+  const segmentEnd = (k: number): number | null => {
+    const segment = segments[k];
+    return segment.end ?? (k + 1 < segments.length ? segments[k + 1].start : null);
+  };
+
+  let first = 0;
+  while (first < segments.length) {
+    // A run of consecutive segments by one speaker
+    let last = first;
+    while (last + 1 < segments.length && segments[last + 1].speaker === segments[first].speaker) {
+      last++;
+    }
+
+    // Join the run, remembering where each segment's text begins
+    let text = '';
+    const offsets: number[] = [];
+    for (let k = first; k <= last; k++) {
+      text = joinText(text, segments[k].text);
+      offsets.push(text.length - segments[k].text.length);
+    }
+
+    const segmentAt = (position: number): number => {
+      let k = 0;
+      while (k + 1 < offsets.length && offsets[k + 1] <= position) {
+        k++;
+      }
+      return first + k;
+    };
+
+    for (const span of sentenceSpans(text)) {
+      const startSegment = segmentAt(span.index);
+      const endSegment = segmentAt(span.index + span.text.length - 1);
+      sentences.push({
+        text: span.text,
+        start: timed ? segments[startSegment].start : null,
+        end: timed ? segmentEnd(endSegment) : null,
+        speaker: segments[first].speaker
+      });
+    }
+
+    first = last + 1;
+  }
+
+  return sentences;
+}
@@ -0,0 +1,380 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { FileHandler } from './file-handler.js';
+import { getConfig } from './config.js';
+
+const readdirAsync = promisify(fs.readdir);
+const unlinkAsync = promisify(fs.unlink);
+const rmAsync = promisify(fs.rm);
+
+/**
+ * Record of a single tool invocation, stored as a JSON sidecar
+ */
+export interface SessionRecord {
+  id: string;
+  tool: string;
+  status: 'running' | 'completed' | 'failed';
+  created_at: string;
+  updated_at: string;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  stats: Record<string, unknown>;
+  files: string[]; // logs and outputs written by the session, removed on cleanup
+  artifacts: Record<string, string>; // named outputs (repaired, log, summary...) -> file path
+  error?: string;
+}
+
+/**
+ * A session in progress, passed to the work tracked by SessionStore.track
+ */
+export interface ActiveSession {
+  id: string;
+  stats: Record<string, unknown>;
+  files: string[];
+  artifacts: Record<string, string>;
+}
+
+/**
+ * Filter options for listing sessions
+ */
+export interface SessionFilter {
+  tool?: string;
+  status?: SessionRecord['status'];
+  since?: string; // ISO date or date-time, inclusive
+  until?: string; // ISO date or date-time, inclusive
+  limit?: number;
+}
+
+// Longest string and array stored verbatim in a session record
+const MAX_STRING_PREVIEW = 200;
+const MAX_ARRAY_PREVIEW = 20;
+
+// Minimum time between automatic cleanups
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Parse a filter date, treating a bare date as the whole day
+ * @param value - ISO date or date-time
+ * @param endOfDay - Whether a bare date means the end of that day
+ * @returns Time in milliseconds
+ */
+function parseFilterDate(value: string, endOfDay: boolean): number {
+  const bareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(bareDate ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Persistent registry of tool sessions
+ */
+export class SessionStore {
+  private sessionDir: string;
+  private static lastCleanup = new Map<string, number>(); // session folder -> time of its last cleanup
+
+  /**
+   * Create a session store
+   * @param baseLogDir - Base directory for logs; records live in its sessions folder
+   */
+  constructor(baseLogDir = getConfig().logDir) {
+    this.sessionDir = path.join(baseLogDir, 'sessions');
+  }
+
+  /**
+   * Check that a session ID is safe to use in a file name
+   * @param sessionId - Session ID supplied by a caller
+   * @returns True if the ID only contains letters, digits, underscores and hyphens
+   */
+  static isValidId(sessionId: string): boolean {
+    return /^[\w-]+$/.test(sessionId);
+  }
+
+  /**
+   * Reduce tool parameters or results to what is worth keeping in a record
+   * Long strings (such as inline transcripts) and long lists are cut to a preview
+   * @param values - Tool parameters or results
+   * @returns Values safe to store
+   */
+  static describe(values: object): Record<string, unknown> {
+    const described: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      if (typeof value === 'string' && value.length > MAX_STRING_PREVIEW) {
+        described[key] = value.slice(0, MAX_STRING_PREVIEW) + '…';
+        described[`${key}_length`] = value.length;
+      } else if (Array.isArray(value) && value.length > MAX_ARRAY_PREVIEW) {
+        described[key] = value.slice(0, MAX_ARRAY_PREVIEW);
+        described[`${key}_count`] = value.length;
+      } else {
+        described[key] = value;
+      }
+    }
+
+    return described;
+  }
+
+  private recordPath(sessionId: string): string {
+    if (!SessionStore.isValidId(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.sessionDir, `${sessionId}.json`);
+  }
+
+  /**
+   * Start a new session
+   * @param tool - Name of the tool being run
+   * @param params - Tool parameters
+   * @returns Promise resolving to the new record
+   */
+  async create(tool: string, params: object): Promise<SessionRecord> {
+    const now = new Date().toISOString();
+    const record: SessionRecord = {
+      id: FileHandler.generateSessionId(),
+      tool,
+      status: 'running',
+      created_at: now,
+      updated_at: now,
+      inputs: SessionStore.describe(params),
+      outputs: {},
+      stats: {},
+      files: [],
+      artifacts: {}
+    };
+
+    await this.save(record);
+    await this.cleanupIfDue();
+    return record;
+  }
+
+  /**
+   * Run a tool inside a new session, recording its result or failure
+   * @param tool - Name of the tool being run
+   * @param params - Tool parameters
+   * @param run - The tool's work; may add stats and files to the session it is given
+   * @returns Promise resolving to the tool's result
+   */
+  async track<T extends object>(
+    tool: string,
+    params: object,
+    run: (session: ActiveSession) => Promise<T>
+  ): Promise<T> {
+    const record = await this.create(tool, params);
+    const session: ActiveSession = { id: record.id, stats: {}, files: [], artifacts: {} };
+
+    try {
+      const result = await run(session);
+      await this.update(record.id, { artifacts: session.artifacts });
+      await this.complete(record.id, SessionStore.describe(result), session.stats, session.files);
+      return result;
+    } catch (error) {
+      await this.update(record.id, { stats: session.stats, files: session.files, artifacts: session.artifacts });
+      await this.fail(record.id, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a named output of a session to its artifact folder
+   * @param session - The session producing the output
+   * @param name - Artifact name, such as 'summary' or 'formatted'
+   * @param content - Content to store
+   * @param extension - File extension
+   * @returns Promise resolving to the artifact's file path
+   */
+  async saveArtifact(session: ActiveSession, name: string, content: string, extension = 'txt'): Promise<string> {
+    const filePath = path.join(this.sessionDir, session.id, `${name}.${extension}`);
+    await FileHandler.writeTextFile(filePath, content);
+    session.artifacts[name] = filePath;
+    return filePath;
+  }
+
+  /**
+   * Add to a named output of a session, creating it on first use
+   * @param session - The session producing the output
+   * @param name - Artifact name
+   * @param content - Content to append
+   * @param extension - File extension
+   * @returns Promise resolving to the artifact's file path
+   */
+  async appendArtifact(session: ActiveSession, name: string, content: string, extension = 'txt'): Promise<string> {
+    const filePath = path.join(this.sessionDir, session.id, `${name}.${extension}`);
+    await FileHandler.appendTextFile(filePath, content);
+    session.artifacts[name] = filePath;
+    return filePath;
+  }
+
+  /**
+   * Read a session record
+   * @param sessionId - Session ID
+   * @returns Promise resolving to the record
+   */
+  async get(sessionId: string): Promise<SessionRecord> {
+    let content: string;
+    try {
+      content = await FileHandler.readTextFile(this.recordPath(sessionId));
+    } catch (error) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return JSON.parse(content);
+  }
+
+  /**
+   * Merge new details into a session record
+   * @param sessionId - Session ID
+   * @param changes - Fields to update; outputs, stats and files are merged rather than replaced
+   * @returns Promise resolving to the updated record
+   */
+  async update(
+    sessionId: string,
+    changes: Partial<Pick<SessionRecord, 'status' | 'outputs' | 'stats' | 'files' | 'artifacts' | 'error'>>
+  ): Promise<SessionRecord> {
+    const record = await this.get(sessionId);
+
+    // Artifacts are files too, so cleanup removes them
+    const artifactFiles = Object.values(changes.artifacts || {});
+
+    const updated: SessionRecord = {
+      ...record,
+      ...changes,
+      outputs: { ...record.outputs, ...changes.outputs },
+      stats: { ...record.stats, ...changes.stats },
+      files: Array.from(new Set([...record.files, ...(changes.files || []), ...artifactFiles])),
+      artifacts: { ...record.artifacts, ...changes.artifacts },
+      updated_at: new Date().toISOString()
+    };
+
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Mark a session as completed
+   * @param sessionId - Session ID
+   * @param outputs - Tool outputs
+   * @param stats - Processing statistics
+   * @param files - Files written by the session
+   * @returns Promise resolving to the updated record
+   */
+  async complete(
+    sessionId: string,
+    outputs: Record<string, unknown>,
+    stats: Record<string, unknown> = {},
+    files: string[] = []
+  ): Promise<SessionRecord> {
+    return this.update(sessionId, { status: 'completed', outputs, stats, files });
+  }
+
+  /**
+   * Mark a session as failed
+   * @param sessionId - Session ID
+   * @param error - The error that ended the session
+   * @returns Promise resolving to the updated record
+   */
+  async fail(sessionId: string, error: unknown): Promise<SessionRecord> {
+    return this.update(sessionId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * List sessions, newest first
+   * @param filter - Optional tool, status and date filters
+   * @returns Promise resolving to the matching records
+   */
+  async list(filter: SessionFilter = {}): Promise<SessionRecord[]> {
+    const since = filter.since ? parseFilterDate(filter.since, false) : -Infinity;
+    const until = filter.until ? parseFilterDate(filter.until, true) : Infinity;
+
+    const records = (await this.readAll()).filter(record => {
+      const created = Date.parse(record.created_at);
+      return (!filter.tool || record.tool === filter.tool)
+        && (!filter.status || record.status === filter.status)
+        && created >= since
+        && created <= until;
+    });
+
+    records.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return filter.limit ? records.slice(0, filter.limit) : records;
+  }
+
+  /**
+   * Delete a session record, its artifact folder and the files it produced
+   * @param record - Session to delete
+   */
+  async remove(record: SessionRecord): Promise<void> {
+    for (const file of [...record.files, this.recordPath(record.id)]) {
+      try {
+        await unlinkAsync(file);
+      } catch (error) {
+        // Already gone is fine; the record is removed regardless
+      }
+    }
+    await rmAsync(path.join(this.sessionDir, record.id), { recursive: true, force: true });
+  }
+
+  /**
+   * Apply the retention policy, removing sessions that are too old or beyond the maximum count
+   * Running sessions, such as open live transcripts, are kept unless nothing has touched them
+   * for the whole retention period
+   * @param retentionDays - Age limit in days, 0 for none
+   * @param maxSessions - Count limit, 0 for none
+   * @returns Promise resolving to the IDs of removed sessions
+   */
+  async cleanup(
+    retentionDays = getConfig().sessionRetentionDays,
+    maxSessions = getConfig().maxSessions
+  ): Promise<string[]> {
+    if (retentionDays <= 0 && maxSessions <= 0) {
+      return [];
+    }
+
+    const records = await this.list();
+    const cutoff = retentionDays > 0 ? Date.now() - retentionDays * 24 * 60 * 60 * 1000 : -Infinity;
+
+    // Records are newest first, so anything past maxSessions is the oldest
+    const expired = records.filter((record, i) => record.status === 'running'
+      ? Date.parse(record.updated_at) < cutoff
+      : Date.parse(record.created_at) < cutoff || (maxSessions > 0 && i >= maxSessions)
+    );
+
+    for (const record of expired) {
+      await this.remove(record);
+    }
+
+    SessionStore.lastCleanup.set(this.sessionDir, Date.now());
+    return expired.map(record => record.id);
+  }
+
+  private async cleanupIfDue(): Promise<void> {
+    if (Date.now() - (SessionStore.lastCleanup.get(this.sessionDir) ?? 0) >= CLEANUP_INTERVAL_MS) {
+      await this.cleanup();
+    }
+  }
+
+  private async save(record: SessionRecord): Promise<void> {
+    await FileHandler.writeTextFile(this.recordPath(record.id), JSON.stringify(record, null, 2));
+  }
+
+  private async readAll(): Promise<SessionRecord[]> {
+    let names: string[];
+    try {
+      names = await readdirAsync(this.sessionDir);
+    } catch (error) {
+      return [];
+    }
+
+    const records: SessionRecord[] = [];
+    for (const name of names.filter(n => n.endsWith('.json'))) {
+      try {
+        records.push(JSON.parse(await FileHandler.readTextFile(path.join(this.sessionDir, name))));
+      } catch (error) {
+        // Skip records that are unreadable or half-written
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Function words ignored when weighing sentence content
+ * Conversational fillers are included since transcripts are full of them
+ */
+const ENGLISH_STOPWORDS = [
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any',
+  'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'done', 'down', 'during', 'each', 'even',
+  'ever', 'few', 'for', 'from', 'further', 'get', 'gets', 'getting', 'go', 'goes', 'going', 'got',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'like', 'made',
+  'make', 'many', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'next',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our',
+  'ours', 'ourselves', 'out', 'over', 'own', 'really', 'same', 'say', 'said', 'see', 'she',
+  'should', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'themselves', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this', 'those',
+  'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'way', 'we', 'well', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'yes',
+  'yet', 'you', 'your', 'yours', 'yourself', 'yourselves',
+  // Contractions, with the apostrophe already removed
+  'dont', 'doesnt', 'didnt', 'cant', 'couldnt', 'wont', 'wouldnt', 'shouldnt', 'isnt', 'arent',
+  'wasnt', 'werent', 'im', 'ive', 'id', 'ill', 'youre', 'youve', 'youll', 'hes', 'shes',
+  'theyre', 'theyve', 'thats', 'theres', 'whats', 'lets',
+  // Conversational fillers and pleasantries
+  'uh', 'um', 'erm', 'ah', 'oh', 'hmm', 'mm', 'yeah', 'yep', 'okay', 'ok', 'right', 'gonna',
+  'wanna', 'kind', 'sort', 'actually', 'basically', 'mean', 'know', 'hi', 'hello', 'bye', 'thanks',
+  'thank', 'everyone', 'everybody', 'great', 'sure', 'good'
+];
+
+const SPANISH_STOPWORDS = [
+  'a', 'al', 'algo', 'algunos', 'ante', 'antes', 'aquí', 'así', 'bien', 'cada', 'como', 'con',
+  'cuando', 'de', 'del', 'desde', 'donde', 'dos', 'el', 'él', 'ella', 'ellos', 'en', 'entre', 'era',
+  'es', 'esa', 'ese', 'eso', 'esta', 'está', 'están', 'este', 'esto', 'fue', 'ha', 'hay', 'hacer',
+  'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'muy', 'nada', 'no', 'nos', 'nosotros',
+  'o', 'otro', 'para', 'pero', 'poco', 'por', 'porque', 'que', 'qué', 'se', 'sea', 'ser', 'si', 'sí',
+  'sin', 'sobre', 'son', 'su', 'sus', 'también', 'tan', 'te', 'tener', 'tiene', 'todo', 'todos',
+  'tu', 'tú', 'un', 'una', 'uno', 'unos', 'usted', 'va', 'vamos', 'y', 'ya', 'yo',
+  'eh', 'em', 'bueno', 'pues', 'vale', 'gracias', 'hola', 'claro'
+];
+
+const FRENCH_STOPWORDS = [
+  'à', 'au', 'aussi', 'aux', 'avec', 'avoir', 'bien', 'c', 'ça', 'ce', 'cela', 'ces', 'cest', 'cette',
+  'comme', 'dans', 'de', 'des', 'donc', 'du', 'elle', 'elles', 'en', 'est', 'et', 'être', 'eu', 'fait',
+  'faire', 'il', 'ils', 'j', 'je', 'jai', 'la', 'le', 'les', 'leur', 'lui', 'ma', 'mais', 'me', 'même',
+  'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ont', 'ou', 'où', 'par', 'pas', 'plus',
+  'pour', 'qu', 'que', 'qui', 'sa', 'se', 'ses', 'si', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi',
+  'ton', 'tout', 'très', 'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y',
+  'euh', 'bon', 'ben', 'bah', 'voilà', 'alors', 'merci', 'bonjour', 'oui', 'non'
+];
+
+const GERMAN_STOPWORDS = [
+  'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'da', 'das',
+  'dass', 'dem', 'den', 'denn', 'der', 'des', 'die', 'dies', 'diese', 'doch', 'du', 'ein', 'eine',
+  'einem', 'einen', 'einer', 'er', 'es', 'für', 'gibt', 'hat', 'haben', 'hier', 'ich', 'ihr', 'im',
+  'in', 'ist', 'ja', 'jetzt', 'kann', 'kein', 'mal', 'man', 'mehr', 'mich', 'mir', 'mit', 'muss',
+  'nach', 'nicht', 'noch', 'nur', 'oder', 'schon', 'sehr', 'sein', 'sich', 'sie', 'sind', 'so',
+  'über', 'um', 'und', 'uns', 'unter', 'viel', 'vom', 'von', 'vor', 'war', 'was', 'wenn', 'werden',
+  'wie', 'wir', 'wird', 'zu', 'zum', 'zur',
+  'äh', 'ähm', 'halt', 'genau', 'danke', 'hallo', 'gut', 'okay'
+];
+
+// Languages written without spaces are split into words at these particles and function words
+const JAPANESE_STOPWORDS = [
+  'こと', 'もの', 'ところ', 'これ', 'それ', 'あれ', 'ここ', 'そこ', '私', '僕', '自分', '今日', '感じ',
+  'えーと', 'えっと', 'あの', 'まあ'
+];
+
+const CHINESE_STOPWORDS = [
+  '的', '了', '是', '在', '和', '也', '都', '就', '我', '你', '他', '她', '它', '们', '这', '那', '不',
+  '有', '吗', '呢', '吧', '啊', '个', '很', '还', '要', '会', '说', '我们', '你们', '他们', '这个',
+  '那个', '就是', '然后', '因为', '所以', '但是', '还是', '已经', '可以', '没有', '什么', '怎么',
+  '一个', '嗯', '呃'
+];
+
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(ENGLISH_STOPWORDS),
+  es: new Set(SPANISH_STOPWORDS),
+  fr: new Set(FRENCH_STOPWORDS),
+  de: new Set(GERMAN_STOPWORDS),
+  ja: new Set(JAPANESE_STOPWORDS),
+  zh: new Set(CHINESE_STOPWORDS)
+};
+
+/**
+ * Check whether a word carries little meaning on its own
+ * @param word - Lower-case word with apostrophes removed
+ * @param language - Language code; languages without a list fall back to English
+ * @returns True if the word should be ignored when weighing content
+ */
+export function isStopword(word: string, language = 'en'): boolean {
+  return (STOPWORDS[language] ?? STOPWORDS.en).has(word);
+}
+
+/**
+ * Count how many words of a text are stopwords of a language
+ * @param words - Lower-case words with apostrophes removed
+ * @param language - Language code
+ * @returns Number of stopwords
+ */
+export function countStopwords(words: string[], language: string): number {
+  const stopwords = STOPWORDS[language];
+  return stopwords ? words.filter(word => stopwords.has(word)).length : 0;
+}
@@ -0,0 +1,110 @@
+import { contentTerms, cosine } from './extractive.js';
+
+/**
+ * A run of sentences about one topic
+ */
+export interface TopicSection {
+  start: number; // index of the first sentence
+  end: number; // index just past the last sentence
+}
+
+/**
+ * Options for topic segmentation
+ */
+export interface TopicOptions {
+  window?: number; // sentences compared on each side of a possible boundary
+  minSentences?: number; // shortest section allowed
+  language?: string; // language code of the sentences
+}
+
+/**
+ * Sum the content-term counts of a block of sentences
+ * @param counts - Term counts per sentence
+ * @param from - First sentence of the block
+ * @param to - Index just past the last sentence
+ * @returns Combined term counts
+ */
+function blockCounts(counts: Map<string, number>[], from: number, to: number): Map<string, number> {
+  const block = new Map<string, number>();
+  for (const sentence of counts.slice(Math.max(0, from), to)) {
+    for (const [term, count] of sentence) {
+      block.set(term, (block.get(term) ?? 0) + count);
+    }
+  }
+  return block;
+}
+
+/**
+ * Score how lexically cohesive the text is across each gap between sentences
+ * @param sentences - Sentences in document order
+ * @param window - Sentences compared on each side of a gap
+ * @param language - Language code of the sentences
+ * @returns scores[g] compares the sentences before g with those from g on (index 0 is unused)
+ */
+export function gapScores(sentences: string[], window = 3, language = 'en'): number[] {
+  const counts = sentences.map(sentence => {
+    const termCounts = new Map<string, number>();
+    for (const term of contentTerms(sentence, language)) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    return termCounts;
+  });
+
+  const scores: number[] = [];
+  for (let g = 1; g < sentences.length; g++) {
+    scores[g] = cosine(blockCounts(counts, g - window, g), blockCounts(counts, g, g + window));
+  }
+  return scores;
+}
+
+/**
+ * Split a sequence of sentences into topic sections with TextTiling
+ * Each gap between sentences is scored by the lexical similarity of the blocks either side;
+ * gaps in deep similarity valleys become boundaries
+ * @param sentences - Sentences in document order
+ * @param options - Block size, minimum section length and language
+ * @returns Sections covering every sentence, in order
+ */
+export function segmentTopics(sentences: string[], options: TopicOptions = {}): TopicSection[] {
+  const { window = 3, minSentences = 3, language = 'en' } = options;
+  const n = sentences.length;
+  if (n < minSentences * 2) {
+    return n > 0 ? [{ start: 0, end: n }] : [];
+  }
+
+  const scores = gapScores(sentences, window, language);
+
+  // Depth: how far the similarity climbs back up on each side of the gap
+  const depths: Array<{ gap: number; depth: number }> = [];
+  for (let g = 1; g < n; g++) {
+    let left = scores[g];
+    for (let i = g - 1; i >= 1 && scores[i] >= left; i--) {
+      left = scores[i];
+    }
+    let right = scores[g];
+    for (let i = g + 1; i < n && scores[i] >= right; i++) {
+      right = scores[i];
+    }
+    depths.push({ gap: g, depth: (left - scores[g]) + (right - scores[g]) });
+  }
+
+  const mean = depths.reduce((sum, d) => sum + d.depth, 0) / depths.length;
+  const deviation = Math.sqrt(depths.reduce((sum, d) => sum + (d.depth - mean) ** 2, 0) / depths.length);
+  const cutoff = mean - deviation / 2;
+
+  // Take the deepest valleys first, keeping every section at least minSentences long
+  const boundaries: number[] = [];
+  for (const { gap, depth } of [...depths].sort((a, b) => b.depth - a.depth)) {
+    if (depth <= cutoff || depth === 0) {
+      break;
+    }
+    const fits = gap >= minSentences && n - gap >= minSentences
+      && boundaries.every(b => Math.abs(b - gap) >= minSentences);
+    if (fits) {
+      boundaries.push(gap);
+    }
+  }
+
+  const edges = [0, ...boundaries.sort((a, b) => a - b), n];
+  return edges.slice(0, -1).map((start, i) => ({ start, end: edges[i + 1] }));
+}
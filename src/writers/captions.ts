@@ -0,0 +1,120 @@
+import { TranscriptSegment } from '../parsers/types.js';
+import { formatTimecode } from '../parsers/timecode.js';
+import { Cue, CueOptions } from './types.js';
+
+// Approximate reading speed used to time cues that have no end or successor
+const CHARS_PER_SECOND = 15;
+
+/**
+ * Fill in missing end times from the next segment's start or the text length
+ * @param segments - Parsed transcript segments
+ * @param options - Re-segmentation rules, used to cap estimated durations
+ * @returns Cues with resolved end times
+ */
+export function resolveCues(segments: TranscriptSegment[], options: CueOptions): Cue[] {
+  return segments.map((segment, i) => {
+    const estimated = segment.start + Math.max(1, segment.text.length / CHARS_PER_SECOND);
+    let end = segment.end;
+
+    if (end === null || end <= segment.start) {
+      const next = segments[i + 1];
+      end = next && next.start > segment.start
+        ? Math.min(next.start, segment.start + options.maxDuration)
+        : Math.min(estimated, segment.start + options.maxDuration);
+    }
+
+    return { start: segment.start, end, text: segment.text, speaker: segment.speaker };
+  });
+}
+
+/**
+ * Split cues that are too long in characters or duration
+ * Text is broken at word boundaries and time is shared out by character count
+ * @param cues - Cues with resolved times
+ * @param options - Re-segmentation rules
+ * @returns Cues satisfying the rules where word lengths allow
+ */
+export function resegmentCues(cues: Cue[], options: CueOptions): Cue[] {
+  const result: Cue[] = [];
+
+  for (const cue of cues) {
+    const duration = cue.end - cue.start;
+    const pieces = Math.max(1, Math.ceil(duration / options.maxDuration));
+    const limit = Math.min(options.maxChars, Math.max(1, Math.ceil(cue.text.length / pieces)));
+
+    if (cue.text.length <= limit) {
+      result.push(cue);
+      continue;
+    }
+
+    // Greedily pack words into chunks no longer than the limit
+    const chunks: string[] = [];
+    let current = '';
+    for (const word of cue.text.split(/\s+/).filter(w => w !== '')) {
+      if (current !== '' && current.length + 1 + word.length > limit) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = current === '' ? word : `${current} ${word}`;
+      }
+    }
+    if (current !== '') {
+      chunks.push(current);
+    }
+
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    let start = cue.start;
+
+    for (let i = 0; i < chunks.length; i++) {
+      const end = i === chunks.length - 1
+        ? cue.end
+        : start + duration * (chunks[i].length / totalChars);
+      result.push({ start, end, text: chunks[i], speaker: cue.speaker });
+      start = end;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Render cues as a SubRip (.srt) document
+ * @param cues - Cues to render
+ * @param first - Number of the first cue, for a document rendered in parts
+ * @returns SRT content
+ */
+export function renderSrt(cues: Cue[], first = 1): string {
+  return cues
+    .map((cue, i) => {
+      const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${first + i}\n${formatTimecode(cue.start, ',')} --> ${formatTimecode(cue.end, ',')}\n${text}\n`;
+    })
+    .join('\n');
+}
+
+// Header opening every WebVTT document
+export const VTT_HEADER = 'WEBVTT\n\n';
+
+/**
+ * Render cues as the body of a WebVTT document, without its header
+ * @param cues - Cues to render
+ * @returns WebVTT cue blocks
+ */
+export function renderVttCues(cues: Cue[]): string {
+  return cues
+    .map(cue => {
+      const text = cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+      const payload = cue.speaker ? `<v ${cue.speaker}>${text}` : text;
+      return `${formatTimecode(cue.start, '.')} --> ${formatTimecode(cue.end, '.')}\n${payload}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Render cues as a WebVTT (.vtt) document
+ * @param cues - Cues to render
+ * @returns WebVTT content
+ */
+export function renderVtt(cues: Cue[]): string {
+  return VTT_HEADER + renderVttCues(cues);
+}
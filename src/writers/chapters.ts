@@ -0,0 +1,46 @@
+import { formatTimecode } from '../parsers/timecode.js';
+import { Chapter } from './types.js';
+
+/**
+ * Format a chapter start the way YouTube descriptions write it: `m:ss`, or `h:mm:ss` for long videos
+ * @param seconds - Time in seconds
+ * @param withHours - Whether to include the hour field
+ * @returns Timestamp such as `4:05` or `1:02:03`
+ */
+function formatChapterTime(seconds: number, withHours: boolean): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return withHours ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Render chapters as a YouTube description chapter list
+ * YouTube only recognises the list when it starts at 0:00, so the first chapter is shown from there
+ * @param chapters - Chapters in order
+ * @returns One `timestamp title` line per chapter
+ */
+export function renderYoutubeChapters(chapters: Chapter[]): string {
+  const withHours = chapters.some(chapter => chapter.start >= 3600);
+  return chapters
+    .map((chapter, i) => `${formatChapterTime(i === 0 ? 0 : chapter.start, withHours)} ${chapter.title}`)
+    .join('\n');
+}
+
+/**
+ * Render chapters as a WebVTT chapters track
+ * @param chapters - Chapters in order
+ * @returns WebVTT content with one cue per chapter
+ */
+export function renderVttChapters(chapters: Chapter[]): string {
+  const body = chapters
+    .map((chapter, i) => {
+      const title = chapter.title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+      return `Chapter ${i + 1}\n${formatTimecode(chapter.start, '.')} --> ${formatTimecode(chapter.end, '.')}\n${title}\n`;
+    })
+    .join('\n');
+
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,145 @@
+import { TranscriptSegment } from '../parsers/types.js';
+import { renderSrt, renderVttCues, resegmentCues, resolveCues, VTT_HEADER } from './captions.js';
+import { renderVttChapters, renderYoutubeChapters } from './chapters.js';
+import { renderMarkdown } from './markdown.js';
+import { Chapter, Cue, CueOptions, FormattedParagraph, TranscriptWriter } from './types.js';
+
+export type { Chapter, Cue, CueOptions, FormattedParagraph, TranscriptWriter } from './types.js';
+
+/**
+ * Supported output formats for formatted transcripts
+ */
+export type OutputFormat = 'text' | 'srt' | 'vtt' | 'json' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'srt', 'vtt', 'json', 'markdown'];
+
+/**
+ * Create a writer rendering a formatted transcript in the requested output format a part at a time
+ * The parts it returns join into the same document as rendering the whole transcript at once
+ * @param format - Output format
+ * @param cueOptions - Re-segmentation rules for caption formats
+ * @returns Writer for the format
+ */
+export function createTranscriptWriter(format: OutputFormat, cueOptions: CueOptions): TranscriptWriter {
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown output format: ${format}`);
+  }
+
+  let written = 0; // paragraphs or cues written so far
+  let held: TranscriptSegment | null = null;
+
+  // A cue without an end time ends where the next segment starts, so the last segment waits
+  const takeCues = (segments: TranscriptSegment[], last: boolean): Cue[] => {
+    const pending = held ? [held, ...segments] : segments;
+    if (pending.length === 0) {
+      return [];
+    }
+    const cues = resolveCues(pending, cueOptions);
+    held = last ? null : pending[pending.length - 1];
+    return last ? cues : cues.slice(0, -1);
+  };
+
+  // Each part after the first is joined to the one before by the format's separator
+  const append = (count: number, separator: string, rendered: string): string => {
+    const text = count > 0 && written > 0 ? separator + rendered : rendered;
+    written += count;
+    return text;
+  };
+
+  const render = (segments: TranscriptSegment[], paragraphs: FormattedParagraph[], last: boolean): string => {
+    switch (format) {
+      case 'text':
+        return append(paragraphs.length, '\n\n', paragraphs.map(p => p.text).join('\n\n'));
+
+      case 'srt': {
+        const cues = resegmentCues(takeCues(segments, last), cueOptions);
+        return append(cues.length, '\n', renderSrt(cues, written + 1));
+      }
+
+      case 'vtt': {
+        const cues = resegmentCues(takeCues(segments, last), cueOptions);
+        return append(cues.length, '\n', renderVttCues(cues));
+      }
+
+      case 'json': {
+        // Matches JSON.stringify({ segments }, null, 2), one cue at a time
+        const cues = takeCues(segments, last).map(cue => '\n    ' + JSON.stringify(cue, null, 2).split('\n').join('\n    '));
+        return append(cues.length, ',', cues.join(','));
+      }
+
+      case 'markdown':
+        return append(paragraphs.length, '\n', renderMarkdown(paragraphs));
+
+      default:
+        throw new Error(`Unknown output format: ${format}`);
+    }
+  };
+
+  // The document's opening comes before its first part, even when there are none
+  let opened = false;
+  const open = (): string => {
+    if (opened) {
+      return '';
+    }
+    opened = true;
+    return format === 'vtt' ? VTT_HEADER : format === 'json' ? '{\n  "segments": [' : '';
+  };
+
+  return {
+    write(segments: TranscriptSegment[], paragraphs: FormattedParagraph[]): string {
+      return open() + render(segments, paragraphs, false);
+    },
+
+    end(): string {
+      const text = open() + render([], [], true);
+      return format === 'json' ? text + (written > 0 ? '\n  ]\n}' : ']\n}') : text;
+    }
+  };
+}
+
+/**
+ * Render a formatted transcript in the requested output format
+ * @param format - Output format
+ * @param segments - Parsed transcript segments
+ * @param paragraphs - Paragraphs produced by the formatter
+ * @param cueOptions - Re-segmentation rules for caption formats
+ * @returns The rendered transcript
+ */
+export function renderTranscript(
+  format: OutputFormat,
+  segments: TranscriptSegment[],
+  paragraphs: FormattedParagraph[],
+  cueOptions: CueOptions
+): string {
+  const writer = createTranscriptWriter(format, cueOptions);
+  return writer.write(segments, paragraphs) + writer.end();
+}
+
+/**
+ * Supported output formats for chapter lists
+ */
+export type ChapterFormat = 'youtube' | 'vtt' | 'json';
+
+export const CHAPTER_FORMATS: ChapterFormat[] = ['youtube', 'vtt', 'json'];
+
+/**
+ * Render chapters in the requested output format
+ * @param format - Output format
+ * @param chapters - Chapters in order
+ * @returns The rendered chapter list
+ */
+export function renderChapters(format: ChapterFormat, chapters: Chapter[]): string {
+  switch (format) {
+    case 'youtube':
+      return renderYoutubeChapters(chapters);
+
+    case 'vtt':
+      return renderVttChapters(chapters);
+
+    case 'json':
+      return JSON.stringify({ chapters }, null, 2);
+
+    default:
+      throw new Error(`Unknown chapter format: ${format}`);
+  }
+}
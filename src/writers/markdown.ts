@@ -0,0 +1,17 @@
+import { formatTimecode } from '../parsers/timecode.js';
+import { FormattedParagraph } from './types.js';
+
+/**
+ * Render paragraphs as Markdown with a timestamped heading per paragraph
+ * @param paragraphs - Formatted paragraphs
+ * @returns Markdown content
+ */
+export function renderMarkdown(paragraphs: FormattedParagraph[]): string {
+  return paragraphs
+    .map(paragraph => {
+      // Trailing double spaces keep the formatter's line breaks in Markdown
+      const body = paragraph.text.split('\n').join('  \n');
+      return `### [${formatTimecode(paragraph.start)}]\n\n${body}\n`;
+    })
+    .join('\n');
+}
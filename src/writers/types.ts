@@ -0,0 +1,57 @@
+import { TranscriptSegment } from '../parsers/types.js';
+
+/**
+ * A paragraph of formatted prose with the time its first segment starts
+ */
+export interface FormattedParagraph {
+  start: number; // seconds
+  speaker: string | null;
+  text: string; // may contain single line breaks
+}
+
+/**
+ * A caption cue with resolved start and end times
+ */
+export interface Cue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  speaker: string | null;
+}
+
+/**
+ * Re-segmentation rules applied to caption output
+ */
+export interface CueOptions {
+  maxChars: number;
+  maxDuration: number; // seconds
+}
+
+/**
+ * Renders a transcript in one output format a part at a time, so it can be written out as it is
+ * formatted
+ */
+export interface TranscriptWriter {
+  /**
+   * Render the next segments of the transcript and the paragraphs they closed
+   * @param segments - Segments following those already written
+   * @param paragraphs - Paragraphs following those already written
+   * @returns Text to append to the output; a caption waits for the next segment to time its end
+   */
+  write(segments: TranscriptSegment[], paragraphs: FormattedParagraph[]): string;
+  /**
+   * Render whatever is still held back and close the document
+   * @returns Text to append to the output
+   */
+  end(): string;
+}
+
+/**
+ * A chapter marker with its extracted title
+ */
+export interface Chapter {
+  start: number; // seconds
+  end: number; // seconds
+  title: string;
+  key_phrases: string[];
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { alignTokens, countEdits, topConfusions } from '../build/utils/alignment.js';
+
+/**
+ * Render an alignment compactly
+ * @param pairs - Alignment steps
+ * @returns One 'operation:reference/hypothesis' entry per step
+ */
+function describe(pairs) {
+  return pairs.map(({ operation, reference, hypothesis }) => `${operation}:${reference ?? '-'}/${hypothesis ?? '-'}`);
+}
+
+test('a repeated word is an insertion, not a shift of the words after it', () => {
+  const reference = 'we receive the data tomorrow um okay'.split(' ');
+  const hypothesis = 'we recieve the the data tomorow ok'.split(' ');
+  const pairs = alignTokens(reference, hypothesis);
+
+  assert.deepEqual(describe(pairs), [
+    'match:we/we',
+    'substitution:receive/recieve',
+    'insertion:-/the',
+    'match:the/the',
+    'match:data/data',
+    'substitution:tomorrow/tomorow',
+    'deletion:um/-',
+    'substitution:okay/ok'
+  ]);
+  assert.deepEqual(countEdits(pairs), { hits: 3, substitutions: 3, insertions: 1, deletions: 1 });
+  assert.deepEqual(
+    topConfusions(pairs, 10).filter(confusion => confusion.operation === 'substitution').map(c => [c.reference, c.hypothesis]),
+    [['receive', 'recieve'], ['tomorrow', 'tomorow'], ['okay', 'ok']]
+  );
+});
+
+test('a dropped word is a deletion', () => {
+  const pairs = alignTokens('we will meet on friday'.split(' '), 'we meet on friday'.split(' '));
+
+  assert.deepEqual(describe(pairs), ['match:we/we', 'deletion:will/-', 'match:meet/meet', 'match:on/on', 'match:friday/friday']);
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+const entry = fileURLToPath(new URL('../build/index.js', import.meta.url));
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'transcription-tools-'));
+let server;
+let url;
+
+/**
+ * Connect a new client to the server
+ * @returns The connected client
+ */
+async function connect() {
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(url)));
+  return client;
+}
+
+/**
+ * Call a tool, turning a protocol error into a failed result
+ * @param client - Client to call with
+ * @param name - Tool name
+ * @param args - Tool arguments
+ * @returns The tool's result
+ */
+async function callTool(client, name, args) {
+  try {
+    return await client.callTool({ name, arguments: args });
+  } catch (error) {
+    return { isError: true, content: [{ type: 'text', text: error.message }] };
+  }
+}
+
+before(async () => {
+  // The output directory lies inside the input root, as it does when both default to the working directory
+  server = spawn(process.execPath, [entry, '--transport', 'http', '--port', '0'], {
+    env: {
+      ...process.env,
+      TRANSCRIPTION_TOOLS_LOG_DIR: path.join(root, 'logs'),
+      TRANSCRIPTION_TOOLS_OUTPUT_DIR: root,
+      TRANSCRIPTION_TOOLS_INPUT_ROOTS: root
+    },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+  url = await new Promise((resolve, reject) => {
+    let output = '';
+    server.stderr.on('data', data => {
+      output += data;
+      const match = /running on (http:\S+)/.exec(output);
+      if (match) {
+        resolve(match[1]);
+      }
+    });
+    server.once('exit', code => reject(new Error(`Server exited with ${code}: ${output}`)));
+  });
+});
+
+after(() => {
+  server.kill();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('a client cannot read another client\'s outputs', async () => {
+  const first = await connect();
+  const second = await connect();
+
+  const repaired = await callTool(first, 'repair_text', { input_text: 'We will meet on Friday.' });
+  assert.ok(!repaired.isError, repaired.content[0].text);
+  const { output_file: outputFile } = JSON.parse(repaired.content[0].text);
+  assert.ok(fs.existsSync(outputFile));
+
+  // The first client reads its own output back
+  const own = await callTool(first, 'format_transcript', { input_text: outputFile, is_file_path: true });
+  assert.ok(!own.isError, own.content[0].text);
+
+  const read = await callTool(second, 'format_transcript', { input_text: outputFile, is_file_path: true });
+  assert.ok(read.isError);
+  assert.match(read.content[0].text, /outside the allowed input directories/);
+
+  const relative = path.relative(root, outputFile);
+  const readRelative = await callTool(second, 'format_transcript', { input_text: relative, is_file_path: true });
+  assert.ok(readRelative.isError);
+
+  const batch = await callTool(second, 'batch_process', { glob: 'connections/**/*.txt', operation: 'format' });
+  assert.ok(batch.isError);
+
+  // A pattern over the whole root passes the other client's folder by
+  const all = await callTool(second, 'batch_process', { glob: '**/*.txt', operation: 'format' });
+  if (!all.isError) {
+    const { files } = JSON.parse(all.content[0].text);
+    assert.ok(files.every(file => !file.input.includes(path.basename(outputFile))));
+  } else {
+    assert.match(all.content[0].text, /No files match/);
+  }
+
+  await first.close();
+  await second.close();
+});
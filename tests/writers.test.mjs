@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTranscriptWriter, OUTPUT_FORMATS, renderTranscript } from '../build/writers/index.js';
+
+const cueOptions = { maxChars: 20, maxDuration: 3 };
+const segments = Array.from({ length: 7 }, (_, i) => ({
+  start: i * 2,
+  end: i % 3 === 0 ? i * 2 + 1.5 : null,
+  text: `segment ${i} with a few more words`,
+  speaker: i % 2 ? 'BOB' : null
+}));
+const paragraphs = Array.from({ length: 7 }, (_, i) => ({ start: i * 2, speaker: null, text: `paragraph ${i}\nsecond line` }));
+
+test('a transcript written in parts matches the transcript rendered whole', () => {
+  for (const format of OUTPUT_FORMATS) {
+    const whole = renderTranscript(format, segments, paragraphs, cueOptions);
+    const writer = createTranscriptWriter(format, cueOptions);
+    let parts = '';
+    for (const [from, to] of [[0, 0], [0, 3], [3, 4], [4, 7]]) {
+      parts += writer.write(segments.slice(from, to), paragraphs.slice(from, to));
+    }
+    parts += writer.end();
+
+    assert.equal(parts, whole, format);
+  }
+});
+
+test('an empty transcript is still a whole document', () => {
+  const writer = createTranscriptWriter('json', cueOptions);
+
+  assert.deepEqual(JSON.parse(writer.write([], []) + writer.end()), { segments: [] });
+});